@@ -12,6 +12,9 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Decoders copied from three by scripts/copy-decoders.mjs
+    "public/draco/**",
+    "public/basis/**",
   ]),
 ]);
 
@@ -0,0 +1,33 @@
+// copy-decoders.mjs — Self-hosts the Draco decoder and Basis transcoder
+//
+// Usage: node scripts/copy-decoders.mjs
+//
+// Copies the WASM decoders from the installed three.js release into public/,
+// so the model loaders (see modelAssets.tsx) fetch them from our own origin
+// and always match the three version that parses the models:
+//   - three/examples/jsm/libs/draco → public/draco/
+//   - three/examples/jsm/libs/basis → public/basis/
+
+import { copyFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const ROOT = new URL('..', import.meta.url).pathname;
+const LIBS_DIR = join(ROOT, 'node_modules/three/examples/jsm/libs');
+const PUBLIC_DIR = join(ROOT, 'public');
+
+/** Output directory → files; the JS Draco decoder is the no-WASM fallback */
+const DECODERS = {
+  draco: ['draco_decoder.js', 'draco_decoder.wasm', 'draco_wasm_wrapper.js'],
+  basis: ['basis_transcoder.js', 'basis_transcoder.wasm'],
+};
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+for (const [dir, files] of Object.entries(DECODERS)) {
+  const outDir = join(PUBLIC_DIR, dir);
+  await mkdir(outDir, { recursive: true });
+  await Promise.all(files.map((file) => copyFile(join(LIBS_DIR, dir, file), join(outDir, file))));
+  console.log(`copy-decoders: ${files.length} files → public/${dir}/`);
+}
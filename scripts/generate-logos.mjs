@@ -0,0 +1,210 @@
+// generate-logos.mjs — Turns raw SVG files into logo sources for the registry
+//
+// Usage: node scripts/generate-logos.mjs [inputDir] [outputFile]
+//
+// Every `<id>.svg` in src/assets/logos becomes an entry in
+// src/components/loader/svgLogos.generated.ts:
+//   - the viewBox is squared around the artwork's painted bounds (not the
+//     declared box), so every mark shares a frame
+//   - ids are namespaced with a per-instance token (gradients / clip paths
+//     stay unique when the same logo renders twice)
+//   - prolog, comments, metadata, scripts and event handlers are stripped
+//   - optical size / centroid are measured from the rendered artwork and
+//     written as `tuning` (see opticalTuning.ts), so no hand tuning is needed
+//   - the fill / stroke / gradient-stop colors become the logo's `colors`
+//     palette, in document order
+
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, extname, join, relative } from 'node:path';
+
+import { Resvg } from '@resvg/resvg-js';
+
+const ROOT = new URL('..', import.meta.url).pathname;
+const INPUT_DIR = process.argv[2] ?? join(ROOT, 'src/assets/logos');
+const OUTPUT_FILE = process.argv[3] ?? join(ROOT, 'src/components/loader/svgLogos.generated.ts');
+
+/** Must match ID_TOKEN in svgLogo.tsx */
+const ID_TOKEN = '__LOGO_ID__';
+
+const OPTICS = {
+  /** Raster size used for measuring */
+  sampleSize: 96,
+  /** Coverage that renders at mult 1 (a solid, roughly round mark) */
+  referenceCoverage: 0.3,
+  /** Size follows the square root of the coverage ratio (equal visual weight) */
+  exponent: 0.5,
+  minMult: 0.8,
+  maxMult: 1.25,
+  /** Largest centering nudge, as a fraction of the logo size */
+  maxOffset: 0.15,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const round = (n) => Math.round(n * 1000) / 1000;
+
+const clamp = (n, min, max) => Math.min(max, Math.max(min, n));
+
+const attr = (tag, name) => {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(["'])(.*?)\\1`, 'i').exec(tag);
+  return match ? match[2] : null;
+};
+
+const titleCase = (id) =>
+  id
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+
+/** The artwork's box: viewBox, else width / height */
+const readViewBox = (svgTag, file) => {
+  const viewBox = attr(svgTag, 'viewBox');
+  if (viewBox) {
+    const parts = viewBox.trim().split(/[\s,]+/).map(Number);
+    if (parts.length === 4 && parts.every(Number.isFinite)) return parts;
+  }
+
+  const width = parseFloat(attr(svgTag, 'width') ?? '');
+  const height = parseFloat(attr(svgTag, 'height') ?? '');
+  if (width > 0 && height > 0) return [0, 0, width, height];
+
+  throw new Error(`${file}: needs a viewBox or width/height`);
+};
+
+/** Standalone document with the markup createSvgLogo() in svgLogo.tsx renders */
+const svgDocument = (viewBox, body, size) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${size}" height="${size}" viewBox="${viewBox.join(' ')}">${body.split(ID_TOKEN).join('m')}</svg>`;
+
+/** Painted bounds (strokes included) in user units; the declared box when nothing paints */
+const artworkBounds = (viewBox, body) => {
+  const bbox = new Resvg(svgDocument(viewBox, body, Math.max(viewBox[2], viewBox[3]))).getBBox();
+  return bbox && bbox.width > 0 && bbox.height > 0 ? [bbox.x, bbox.y, bbox.width, bbox.height] : viewBox;
+};
+
+/** Grow the short side so the artwork sits centered in a square */
+const squareViewBox = ([minX, minY, width, height]) => {
+  const side = Math.max(width, height);
+  return [minX - (side - width) / 2, minY - (side - height) / 2, side, side].map(round);
+};
+
+/** Ink coverage → size multiplier, ink centroid → nudge (fractions of the drawn size) */
+const measureTuning = (viewBox, body) => {
+  const size = OPTICS.sampleSize;
+  const { pixels } = new Resvg(svgDocument(viewBox, body, size), { fitTo: { mode: 'width', value: size } }).render();
+
+  let ink = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const alpha = pixels[(y * size + x) * 4 + 3] / 255;
+      ink += alpha;
+      sumX += alpha * (x + 0.5);
+      sumY += alpha * (y + 0.5);
+    }
+  }
+
+  if (ink === 0) return undefined;
+
+  const coverage = ink / (size * size);
+  const offset = (centroid) => round(clamp(0.5 - centroid, -OPTICS.maxOffset, OPTICS.maxOffset));
+
+  return {
+    mult: round(clamp((OPTICS.referenceCoverage / coverage) ** OPTICS.exponent, OPTICS.minMult, OPTICS.maxMult)),
+    offsetX: offset(sumX / ink / size),
+    offsetY: offset(sumY / ink / size),
+  };
+};
+
+/** Paint values that aren't a concrete color */
+const NON_COLORS = new Set(['none', 'transparent', 'currentcolor', 'inherit', 'context-fill', 'context-stroke']);
+
+/** #abc / #aabbcc → #AABBCC; other notations (rgb(), names) are kept as written */
+const normalizeColor = (value) => {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value);
+  if (!hex) return value;
+  const digits = hex[1].length === 3 ? [...hex[1]].map((d) => d + d).join('') : hex[1];
+  return `#${digits.toUpperCase()}`;
+};
+
+/** Distinct paint colors from attributes and inline styles, in document order */
+const readColors = (body) => {
+  const pattern = /(?:\s|;|["'])(fill|stroke|stop-color)\s*[=:]\s*["']?\s*([^"';>]+?)\s*(?=["';>]|$)/gi;
+  const colors = [...body.matchAll(pattern)]
+    .map((match) => match[2].trim())
+    .filter((value) => !value.startsWith('url(') && !NON_COLORS.has(value.toLowerCase()))
+    .map(normalizeColor);
+
+  const unique = [...new Set(colors)];
+  return unique.length > 0 ? unique : undefined;
+};
+
+const sanitize = (body) =>
+  body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(title|desc|metadata|script)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/\son[a-z]+\s*=\s*(["']).*?\1/gi, '')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/>\s+</g, '><')
+    .trim();
+
+const namespaceIds = (body) => {
+  const ids = [...body.matchAll(/\sid\s*=\s*(["'])(.*?)\1/g)].map((m) => m[2]);
+
+  return ids.reduce((out, id) => {
+    const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const scoped = `${ID_TOKEN}-${id}`;
+    return out
+      .replace(new RegExp(`(\\sid\\s*=\\s*["'])${escaped}(["'])`, 'g'), `$1${scoped}$2`)
+      .replace(new RegExp(`url\\(#${escaped}\\)`, 'g'), `url(#${scoped})`)
+      .replace(new RegExp(`(href\\s*=\\s*["'])#${escaped}(["'])`, 'g'), `$1#${scoped}$2`);
+  }, body);
+};
+
+const convert = (source, file) => {
+  const id = basename(file, extname(file)).toLowerCase();
+  const svg = source.replace(/<\?xml[\s\S]*?\?>/, '').replace(/<!DOCTYPE[\s\S]*?>/i, '');
+
+  const open = /<svg\b[^>]*>/i.exec(svg);
+  const close = svg.lastIndexOf('</svg>');
+  if (!open || close < 0) throw new Error(`${file}: no <svg> root`);
+
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(svg)?.[1]?.trim();
+  const body = namespaceIds(sanitize(svg.slice(open.index + open[0].length, close)));
+  const viewBox = squareViewBox(artworkBounds(readViewBox(open[0], file), body));
+
+  return {
+    id,
+    name: title || titleCase(id),
+    viewBox: viewBox.join(' '),
+    body,
+    tuning: measureTuning(viewBox, body),
+    colors: readColors(body),
+  };
+};
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+const files = (await readdir(INPUT_DIR).catch(() => []))
+  .filter((file) => extname(file).toLowerCase() === '.svg')
+  .sort();
+
+const logos = await Promise.all(
+  files.map(async (file) => convert(await readFile(join(INPUT_DIR, file), 'utf8'), file))
+);
+
+const output = `// ${basename(OUTPUT_FILE)} — Generated by scripts/generate-logos.mjs from ${relative(ROOT, INPUT_DIR)}. Do not edit.
+
+import type { SvgLogoSource } from '@/components/loader/svgLogo';
+
+export const SVG_LOGOS: SvgLogoSource[] = ${JSON.stringify(logos, null, 2)};
+`;
+
+await writeFile(OUTPUT_FILE, output);
+console.log(`generate-logos: ${logos.length} logo(s) → ${relative(ROOT, OUTPUT_FILE)}`);
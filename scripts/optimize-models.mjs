@@ -0,0 +1,68 @@
+// optimize-models.mjs — Compresses device GLBs and builds their low-poly proxies
+//
+// Usage: node scripts/optimize-models.mjs [inputDir] [outputDir]
+//
+// Every `<name>.glb` in src/assets/models (an uncompressed export) is written
+// to public/ Draco-compressed (decoded by the self-hosted decoder, see
+// modelAssets.tsx):
+//   - <name>.glb        the full model
+//   - <name>-proxy.glb  simplified to a fraction of its triangles, shown
+//                       while the full model downloads and decodes
+// Node names are kept, so the screen lookups work on both. mac.glb is
+// exported Draco-compressed already and small enough to skip a proxy.
+
+import { mkdir, readdir } from 'node:fs/promises';
+import { basename, extname, join, relative } from 'node:path';
+
+import { NodeIO } from '@gltf-transform/core';
+import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
+import { dedup, draco, simplify, weld } from '@gltf-transform/functions';
+import draco3d from 'draco3dgltf';
+import { MeshoptSimplifier } from 'meshoptimizer';
+
+const ROOT = new URL('..', import.meta.url).pathname;
+const INPUT_DIR = process.argv[2] ?? join(ROOT, 'src/assets/models');
+const OUTPUT_DIR = process.argv[3] ?? join(ROOT, 'public');
+
+const PROXY = {
+  /** Share of triangles the proxy aims to keep */
+  ratio: 0.15,
+  /** Max simplification error, as a share of the mesh size */
+  error: 0.01,
+};
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+await MeshoptSimplifier.ready;
+
+const io = new NodeIO().registerExtensions(ALL_EXTENSIONS).registerDependencies({
+  'draco3d.decoder': await draco3d.createDecoderModule(),
+  'draco3d.encoder': await draco3d.createEncoderModule(),
+});
+
+const files = (await readdir(INPUT_DIR).catch(() => []))
+  .filter((file) => extname(file).toLowerCase() === '.glb')
+  .sort();
+
+await mkdir(OUTPUT_DIR, { recursive: true });
+
+for (const file of files) {
+  const name = basename(file, extname(file));
+
+  const full = await io.read(join(INPUT_DIR, file));
+  await full.transform(dedup(), draco());
+  await io.write(join(OUTPUT_DIR, `${name}.glb`), full);
+
+  const proxy = await io.read(join(INPUT_DIR, file));
+  await proxy.transform(
+    dedup(),
+    weld(),
+    simplify({ simplifier: MeshoptSimplifier, ratio: PROXY.ratio, error: PROXY.error }),
+    draco()
+  );
+  await io.write(join(OUTPUT_DIR, `${name}-proxy.glb`), proxy);
+
+  console.log(`optimize-models: ${file} → ${relative(ROOT, OUTPUT_DIR)}/${name}.glb, ${name}-proxy.glb`);
+}
@@ -1,5 +1,8 @@
 import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
+import { DeviceCapabilitiesProvider } from '@/lib/deviceCapabilities';
+import { GLBudgetProvider } from '@/lib/glBudget';
+import { QualityTierProvider } from '@/lib/qualityTier';
 import './globals.css';
 
 const inter = Inter({ subsets: ['latin'] });
@@ -17,7 +20,11 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={`${inter.className} bg-[#050508] text-white antialiased`}>
-        {children}
+        <DeviceCapabilitiesProvider>
+          <QualityTierProvider>
+            <GLBudgetProvider>{children}</GLBudgetProvider>
+          </QualityTierProvider>
+        </DeviceCapabilitiesProvider>
       </body>
     </html>
   );
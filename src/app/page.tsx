@@ -1,7 +1,26 @@
 'use client';
 
+import { useCallback, useState, useSyncExternalStore } from 'react';
 import { LandingPage } from '@/components/LandingPage';
+import { IntroLoader } from '@/components/loader/IntroLoader';
+import { DEMO_VIDEO_SRC, hasSeenIntro } from '@/components/loader/introAssets';
+import { useIsMobile } from '@/lib/deviceCapabilities';
+
+const subscribeToNothing = () => () => {};
 
 export default function Home() {
-  return <LandingPage visible={true} />;
+  const isMobile = useIsMobile();
+  // Returning visitors (same session) skip straight to the page
+  const introSeen = useSyncExternalStore(subscribeToNothing, hasSeenIntro, () => false);
+  const [loaderDone, setLoaderDone] = useState(false);
+  const handleLoaderComplete = useCallback(() => setLoaderDone(true), []);
+
+  const showPage = introSeen || loaderDone;
+
+  return (
+    <>
+      {!showPage && <IntroLoader isMobile={isMobile} videoSrc={DEMO_VIDEO_SRC} onComplete={handleLoaderComplete} />}
+      <LandingPage visible={showPage} />
+    </>
+  );
 }
\ No newline at end of file
@@ -3,6 +3,9 @@
 
 import { Suspense, lazy, useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
+import { useIsMobile } from '@/lib/deviceCapabilities';
+import { IPHONE_MODEL, MAC_MODEL, preloadModel, useModelProgress } from '@/components/landing/modelAssets';
+import { DEMO_VIDEO_SRC } from '@/components/loader/introAssets';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // LANDING PAGE
@@ -20,46 +23,23 @@ const MacBookSection = lazy(() => import('@/components/landing/MacBookSection'))
 const MobileDeviceSection = lazy(() => import('@/components/landing/MobileDeviceSection'));
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Device Detection Hook
+// Loading Skeletons
 // ─────────────────────────────────────────────────────────────────────────────
-function useIsMobile(): boolean | null {
-  const [isMobile, setIsMobile] = useState<boolean | null>(null);
-
-  useEffect(() => {
-    const checkMobile = () => {
-      // Check user agent for mobile devices
-      const ua = navigator.userAgent;
-      const mobileUA = /Android|iPhone|iPad|iPod|webOS|BlackBerry|IEMobile|Opera Mini/i.test(ua);
-
-      // Also check screen width as fallback
-      const mobileWidth = window.innerWidth < 768;
-
-      // Check for touch capability
-      const hasTouch = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
-
-      // Consider mobile if UA matches OR (small screen AND touch capable)
-      setIsMobile(mobileUA || (mobileWidth && hasTouch));
-    };
-
-    checkMobile();
-
-    // Re-check on resize (for responsive testing)
-    const handleResize = () => {
-      // Debounce
-      clearTimeout((handleResize as { timeout?: NodeJS.Timeout }).timeout);
-      (handleResize as { timeout?: NodeJS.Timeout }).timeout = setTimeout(checkMobile, 150);
-    };
-
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, []);
+/** Model download progress, shown under device skeletons while loading */
+function SkeletonProgress() {
+  const { active, progress } = useModelProgress();
+  if (!active) return null;
 
-  return isMobile;
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="w-32 h-1 bg-white/5 rounded-full overflow-hidden">
+        <div className="h-full bg-white/20 transition-[width] duration-300" style={{ width: `${progress}%` }} />
+      </div>
+      <span className="text-xs tabular-nums text-white/30">{progress}%</span>
+    </div>
+  );
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Loading Skeletons
-// ─────────────────────────────────────────────────────────────────────────────
 function HeroSkeleton() {
   return (
     <div className="h-[180vh] bg-[#050508] flex items-center justify-center">
@@ -73,10 +53,11 @@ function HeroSkeleton() {
 function MacBookSkeleton() {
   return (
     <div className="min-h-[200vh] bg-[#050508]">
-      <div className="sticky top-0 h-screen flex items-center justify-center">
+      <div className="sticky top-0 h-screen flex flex-col items-center justify-center gap-6">
         <div className="animate-pulse">
           <div className="w-[500px] h-80 bg-white/5 rounded-xl" />
         </div>
+        <SkeletonProgress />
       </div>
     </div>
   );
@@ -84,11 +65,12 @@ function MacBookSkeleton() {
 
 function MobileSkeleton() {
   return (
-    <div className="min-h-screen bg-[#050508] flex items-center justify-center">
+    <div className="min-h-screen bg-[#050508] flex flex-col items-center justify-center gap-6">
       <div className="animate-pulse flex flex-col items-center gap-4">
         <div className="w-24 h-48 bg-white/5 rounded-3xl" />
         <div className="w-32 h-4 bg-white/5 rounded" />
       </div>
+      <SkeletonProgress />
     </div>
   );
 }
@@ -119,6 +101,11 @@ export function LandingPage({ visible }: LandingPageProps) {
     return undefined;
   }, [visible]);
 
+  // Start the device model download while the section chunk is still loading
+  useEffect(() => {
+    if (visible && isMobile !== null) preloadModel(isMobile ? IPHONE_MODEL : MAC_MODEL);
+  }, [visible, isMobile]);
+
   if (!visible) return null;
 
   // Wait for device detection before rendering device-specific content
@@ -155,8 +142,10 @@ export function LandingPage({ visible }: LandingPageProps) {
             // ─────────────────────────────────────────────────────────────────
             <Suspense fallback={<MobileSkeleton />}>
               <MobileDeviceSection
-                videoSrc="/demo-video.mp4"
+                videoSrc={DEMO_VIDEO_SRC}
+                imageSrc="/demo-poster.png"
                 glowColor="#6366f1"
+                dotGrid
               />
             </Suspense>
           ) : (
@@ -168,10 +157,12 @@ export function LandingPage({ visible }: LandingPageProps) {
             // ─────────────────────────────────────────────────────────────────
             <Suspense fallback={<MacBookSkeleton />}>
               <MacBookSection
-                videoSrc="/demo-video.mp4"
+                videoSrc={DEMO_VIDEO_SRC}
+                imageSrc="/demo-poster.png"
                 scale={1.5}
                 glowColor="#6366f1"
                 heroLine1="Talent Beyond Comparison."
+                dotGrid
                 showDebug={process.env.NODE_ENV === 'development'}
               />
             </Suspense>
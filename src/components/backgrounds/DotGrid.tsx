@@ -1,33 +1,65 @@
 'use client';
-import React, { useRef, useEffect, useCallback, useMemo } from 'react';
-import { gsap } from 'gsap';
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react';
+
+import { useDeviceCapabilities } from '@/lib/deviceCapabilities';
+
+import {
+  createDotField,
+  isDotBusy,
+  pushDot,
+  returnSpring,
+  stepDotField,
+} from '@/components/backgrounds/dotField';
+import type { DotField } from '@/components/backgrounds/dotField';
+import { loadMaskImage, maskKey, rasterizeMask } from '@/components/backgrounds/dotMask';
+import type { DotGridMask, DotGridMaskMode, ImageMask, PathMask, TextMask } from '@/components/backgrounds/dotMask';
 
 // ─────────────────────────────────────────────────────────────
-// Utility: Throttle high-frequency events
+// Pointer tuning
 // ─────────────────────────────────────────────────────────────
-const throttle = <T extends (...args: Parameters<T>) => void>(
-  func: T,
-  limit: number
-): ((...args: Parameters<T>) => void) => {
-  let lastCall = 0;
-  return (...args: Parameters<T>) => {
-    const now = performance.now();
-    if (now - lastCall >= limit) {
-      lastCall = now;
-      func(...args);
-    }
-  };
+const POINTER = {
+  /** Min ms between handled moves, per pointer */
+  moveInterval: 50,
+  /** A press that moves less than this (px) and ends in time is a tap */
+  tapSlop: 10,
+  tapMaxDuration: 350,
+  /** Drag trails push dots within this share of `proximity` of the path */
+  trailRadius: 0.6,
+  /** Share of pointer velocity carried into a trail push */
+  trailCarry: 0.03,
 };
 
+// ─────────────────────────────────────────────────────────────
+// Scroll ripple tuning
+// ─────────────────────────────────────────────────────────────
+const SCROLL = {
+  /** Scroll speed (px/s) below which the grid stays still */
+  minSpeed: 300,
+  /** Ripple wavelength across the grid (px) */
+  wavelength: 240,
+  /** Min ms between ripple pushes */
+  interval: 80,
+};
+
+/** Longest physics step (s); a backgrounded tab resumes without a jump */
+const MAX_STEP = 1 / 30;
+
 // ─────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────
-interface Dot {
-  cx: number;
-  cy: number;
-  xOffset: number;
-  yOffset: number;
-  _inertiaApplied: boolean;
+/** Live state of one pointer (mouse, pen or touch), keyed by pointerId */
+interface PointerState {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  lastTime: number;
+  lastX: number;
+  lastY: number;
+  pressed: boolean;
+  downX: number;
+  downY: number;
+  downTime: number;
 }
 
 export interface DotGridProps {
@@ -42,10 +74,38 @@ export interface DotGridProps {
   maxSpeed?: number;
   resistance?: number;
   returnDuration?: number;
+  /** Ripple strength on page scroll, in gaps of displacement at maxSpeed (0 = off) */
+  scrollRipple?: number;
+  /** Stop simulating and listening while scrolled out of view (default: true) */
+  pauseWhenHidden?: boolean;
+  /** Shape for the field: text (e.g. a wordmark), an SVG path or an image */
+  mask?: DotGridMask;
+  /** Only place dots inside the mask, or place all and only light those inside */
+  maskMode?: DotGridMaskMode;
   className?: string;
   style?: React.CSSProperties;
 }
 
+// ─────────────────────────────────────────────────────────────
+// Pointer state at rest, as first seen (hover) or pressed
+// ─────────────────────────────────────────────────────────────
+function createPointer(e: PointerEvent, x: number, y: number, pressed: boolean): PointerState {
+  const now = performance.now();
+  return {
+    x,
+    y,
+    vx: 0,
+    vy: 0,
+    lastTime: now,
+    lastX: e.clientX,
+    lastY: e.clientY,
+    pressed,
+    downX: pressed ? e.clientX : 0,
+    downY: pressed ? e.clientY : 0,
+    downTime: pressed ? now : 0,
+  };
+}
+
 // ─────────────────────────────────────────────────────────────
 // Hex → RGB conversion
 // ─────────────────────────────────────────────────────────────
@@ -74,25 +134,61 @@ const DotGrid: React.FC<DotGridProps> = ({
   maxSpeed = 5000,
   resistance = 750,
   returnDuration = 1.2,
+  scrollRipple = 0,
+  pauseWhenHidden = true,
+  mask,
+  maskMode = 'place',
   className = '',
   style,
 }) => {
   const wrapperRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const dotsRef = useRef<Dot[]>([]);
-  const pointerRef = useRef({
-    x: 0,
-    y: 0,
-    vx: 0,
-    vy: 0,
-    speed: 0,
-    lastTime: 0,
-    lastX: 0,
-    lastY: 0,
-  });
+  const fieldRef = useRef<DotField>(createDotField(0));
+  const pointersRef = useRef(new Map<number, PointerState>());
+  const drawRef = useRef<(dt: number) => void>(() => {});
+  /** maskMode 'light': 1 for dots inside the mask (null = all may light) */
+  const lightableRef = useRef<Uint8Array | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  // Reduced motion: a static grid, drawn on build / resize only
+  const { prefersReducedMotion } = useDeviceCapabilities();
+  const running = !pauseWhenHidden || isVisible;
+  const interactive = running && !prefersReducedMotion;
 
   const baseRgb = useMemo(() => hexToRgb(baseColor), [baseColor]);
   const activeRgb = useMemo(() => hexToRgb(activeColor), [activeColor]);
+  const spring = useMemo(() => returnSpring(returnDuration), [returnDuration]);
+
+  // Keyed on content so an inline mask object doesn't rebuild every render
+  const shapeKey = maskKey(mask);
+  const shape = useMemo(
+    () => (shapeKey ? (JSON.parse(shapeKey) as TextMask | PathMask | ImageMask) : null),
+    [shapeKey]
+  );
+  const maskSrc = shape?.type === 'image' ? shape.src : null;
+  // image: null once the load has failed (the grid then goes unmasked)
+  const [maskImage, setMaskImage] = useState<{ src: string; image: HTMLImageElement | null } | null>(null);
+  const maskSettled = maskImage !== null && maskImage.src === maskSrc;
+  const loadedImage = maskSettled ? maskImage.image : null;
+  const maskPending = maskSrc !== null && !maskSettled;
+
+  useEffect(() => {
+    if (!maskSrc) return;
+
+    let cancelled = false;
+    loadMaskImage(maskSrc)
+      .then((image) => {
+        if (!cancelled) setMaskImage({ src: maskSrc, image });
+      })
+      .catch((error) => {
+        console.warn('DotGrid mask:', error);
+        if (!cancelled) setMaskImage({ src: maskSrc, image: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [maskSrc]);
 
   const circlePath = useMemo(() => {
     if (typeof window === 'undefined' || !window.Path2D) return null;
@@ -130,48 +226,90 @@ const DotGrid: React.FC<DotGridProps> = ({
     const startX = (width - gridW) / 2 + dotSize / 2;
     const startY = (height - gridH) / 2 + dotSize / 2;
 
-    const dots: Dot[] = [];
-    for (let y = 0; y < rows; y++) {
-      for (let x = 0; x < cols; x++) {
-        dots.push({
-          cx: startX + x * cell,
-          cy: startY + y * cell,
-          xOffset: 0,
-          yOffset: 0,
-          _inertiaApplied: false,
-        });
+    // An image mask that hasn't loaded yet places nothing; one that failed
+    // (or can't be read back) leaves the grid unmasked
+    const sampler = shape ? rasterizeMask(shape, loadedImage, width, height) : null;
+    const placeAll = !sampler || maskMode === 'light';
+
+    const positions: number[] = [];
+    const lightable: number[] = [];
+    if (!maskPending) {
+      for (let y = 0; y < rows; y++) {
+        for (let x = 0; x < cols; x++) {
+          const cx = startX + x * cell;
+          const cy = startY + y * cell;
+          const inside = !sampler || sampler(cx, cy);
+          if (!placeAll && !inside) continue;
+          positions.push(cx, cy);
+          lightable.push(inside ? 1 : 0);
+        }
       }
     }
-    dotsRef.current = dots;
-  }, [dotSize, gap]);
+
+    const field = createDotField(positions.length / 2);
+    for (let i = 0; i < field.count; i++) {
+      field.cx[i] = positions[i * 2];
+      field.cy[i] = positions[i * 2 + 1];
+    }
+    fieldRef.current = field;
+    lightableRef.current = sampler && maskMode === 'light' ? Uint8Array.from(lightable) : null;
+  }, [dotSize, gap, shape, loadedImage, maskPending, maskMode]);
+
+  // ─────────────────────────────────────────────────────────
+  // Visibility: pause off screen
+  // ─────────────────────────────────────────────────────────
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!pauseWhenHidden || !wrapper) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsVisible(entry.isIntersecting),
+      { rootMargin: '50px' }
+    );
+
+    observer.observe(wrapper);
+    return () => observer.disconnect();
+  }, [pauseWhenHidden]);
 
   // ─────────────────────────────────────────────────────────
-  // Render loop
+  // Render loop: step physics, then draw
   // ─────────────────────────────────────────────────────────
   useEffect(() => {
     if (!circlePath) return;
 
     let rafId: number;
+    let lastTime = 0;
     const proxSq = proximity * proximity;
 
-    const draw = () => {
+    const drawFrame = (dt: number) => {
       const canvas = canvasRef.current;
       if (!canvas) return;
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
 
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      const { x: px, y: py } = pointerRef.current;
+      const field = fieldRef.current;
+      const lightable = lightableRef.current;
+      stepDotField(field, dt, spring);
 
-      for (const dot of dotsRef.current) {
-        const ox = dot.cx + dot.xOffset;
-        const oy = dot.cy + dot.yOffset;
-        const dx = dot.cx - px;
-        const dy = dot.cy - py;
-        const dsq = dx * dx + dy * dy;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const pointers = [...pointersRef.current.values()];
+
+      for (let i = 0; i < field.count; i++) {
+        const cx = field.cx[i];
+        const cy = field.cy[i];
+        const ox = cx + field.ox[i];
+        const oy = cy + field.oy[i];
+
+        // Lit by the nearest pointer
+        let dsq = Infinity;
+        for (const p of pointers) {
+          const dx = cx - p.x;
+          const dy = cy - p.y;
+          dsq = Math.min(dsq, dx * dx + dy * dy);
+        }
 
         let fillStyle = baseColor;
-        if (dsq <= proxSq) {
+        if (dsq <= proxSq && (!lightable || lightable[i])) {
           const t = 1 - Math.sqrt(dsq) / proximity;
           const r = Math.round(baseRgb.r + (activeRgb.r - baseRgb.r) * t);
           const g = Math.round(baseRgb.g + (activeRgb.g - baseRgb.g) * t);
@@ -179,25 +317,40 @@ const DotGrid: React.FC<DotGridProps> = ({
           fillStyle = `rgb(${r},${g},${b})`;
         }
 
-        ctx.save();
         ctx.translate(ox, oy);
         ctx.fillStyle = fillStyle;
         ctx.fill(circlePath);
-        ctx.restore();
+        ctx.translate(-ox, -oy);
       }
+    };
+
+    drawRef.current = drawFrame;
+
+    if (prefersReducedMotion) {
+      drawFrame(0);
+      return;
+    }
+    if (!running) return;
 
-      rafId = requestAnimationFrame(draw);
+    const tick = (time: number) => {
+      drawFrame(lastTime ? Math.min((time - lastTime) / 1000, MAX_STEP) : 0);
+      lastTime = time;
+      rafId = requestAnimationFrame(tick);
     };
 
-    draw();
+    rafId = requestAnimationFrame(tick);
     return () => cancelAnimationFrame(rafId);
-  }, [proximity, baseColor, activeRgb, baseRgb, circlePath]);
+  }, [proximity, baseColor, activeRgb, baseRgb, circlePath, spring, running, prefersReducedMotion]);
 
   // ─────────────────────────────────────────────────────────
-// Resize observer
+// Resize observer (resizing clears the canvas, so redraw right away)
 // ─────────────────────────────────────────────────────────
 useEffect(() => {
-  buildGrid();
+  const rebuild = () => {
+    buildGrid();
+    drawRef.current(0);
+  };
+  rebuild();
 
   const wrapper = wrapperRef.current;
   if (!wrapper) return;
@@ -206,65 +359,128 @@ useEffect(() => {
   const hasResizeObserver = typeof ResizeObserver !== 'undefined';
 
   if (hasResizeObserver) {
-    const ro = new ResizeObserver(buildGrid);
+    const ro = new ResizeObserver(rebuild);
     ro.observe(wrapper);
     return () => ro.disconnect();
   }
 
   // Fallback for older browsers
-  window.addEventListener('resize', buildGrid);
-  return () => window.removeEventListener('resize', buildGrid);
+  window.addEventListener('resize', rebuild);
+  return () => window.removeEventListener('resize', rebuild);
 }, [buildGrid]);
 
   // ─────────────────────────────────────────────────────────
-  // Simulate inertia with standard gsap (no InertiaPlugin)
+  // Text masks measure with whatever font is loaded: rebuild
+  // once web fonts arrive
   // ─────────────────────────────────────────────────────────
-  const applyPush = useCallback(
-    (dot: Dot, pushX: number, pushY: number) => {
-      dot._inertiaApplied = true;
-      gsap.killTweensOf(dot);
+  const isTextMask = shape?.type === 'text';
+  useEffect(() => {
+    if (!isTextMask || !document.fonts) return;
+
+    let cancelled = false;
+    const rebuild = () => {
+      if (cancelled) return;
+      buildGrid();
+      drawRef.current(0);
+    };
+
+    document.fonts.ready.then(rebuild);
+    // Fonts first requested by the mask itself load after `ready` resolved
+    document.fonts.addEventListener('loadingdone', rebuild);
 
+    return () => {
+      cancelled = true;
+      document.fonts.removeEventListener('loadingdone', rebuild);
+    };
+  }, [isTextMask, buildGrid]);
+
+  // ─────────────────────────────────────────────────────────
+  // Push a dot out; the render loop springs it back
+  // ─────────────────────────────────────────────────────────
+  const applyPush = useCallback(
+    (i: number, pushX: number, pushY: number) => {
       // Decay factor from resistance (higher = faster stop)
       const decay = 1 / (1 + resistance / 1000);
-      const targetX = pushX * decay;
-      const targetY = pushY * decay;
-
-      // Phase 1: push out
-      gsap.to(dot, {
-        xOffset: targetX,
-        yOffset: targetY,
-        duration: 0.15,
-        ease: 'power2.out',
-        onComplete: () => {
-          // Phase 2: return with elastic
-          gsap.to(dot, {
-            xOffset: 0,
-            yOffset: 0,
-            duration: returnDuration,
-            ease: 'elastic.out(1, 0.75)',
-            onComplete: () => {
-              dot._inertiaApplied = false;
-            },
-          });
-        },
-      });
+      pushDot(fieldRef.current, i, pushX * decay, pushY * decay);
     },
-    [resistance, returnDuration]
+    [resistance]
   );
 
   // ─────────────────────────────────────────────────────────
-  // Mouse interaction: hover push + click shockwave
+  // Pointer interaction: hover push, drag trails, tap shockwave
+  // Every active pointer (mouse, pen, each touch) is tracked by id.
+  // The grid sits behind the page and leaves touch-action alone, so a touch
+  // drag belongs to the page (it pans, then cancels): drag trails are mouse /
+  // pen only, touches get the tap shockwave and the push until the pan starts.
   // ─────────────────────────────────────────────────────────
   useEffect(() => {
-    const onMove = (e: MouseEvent) => {
+    if (!interactive) return;
+    const pointers = pointersRef.current;
+
+    const toLocal = (e: PointerEvent) => {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      if (!rect) return null;
+      return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const shockwave = (cx: number, cy: number) => {
+      const field = fieldRef.current;
+      for (let i = 0; i < field.count; i++) {
+        const dist = Math.hypot(field.cx[i] - cx, field.cy[i] - cy);
+        if (dist < shockRadius && !isDotBusy(field, i)) {
+          const falloff = Math.max(0, 1 - dist / shockRadius);
+          const pushX = (field.cx[i] - cx) * shockStrength * falloff;
+          const pushY = (field.cy[i] - cy) * shockStrength * falloff;
+          applyPush(i, pushX, pushY);
+        }
+      }
+    };
+
+    /** Push dots near the segment a pressed pointer just travelled */
+    const trail = (p: PointerState, fromX: number, fromY: number) => {
+      const radius = proximity * POINTER.trailRadius;
+      const segX = p.x - fromX;
+      const segY = p.y - fromY;
+      const segLenSq = segX * segX + segY * segY || 1;
+
+      const field = fieldRef.current;
+      for (let i = 0; i < field.count; i++) {
+        if (isDotBusy(field, i)) continue;
+        const cx = field.cx[i];
+        const cy = field.cy[i];
+        const t = Math.max(0, Math.min(1, ((cx - fromX) * segX + (cy - fromY) * segY) / segLenSq));
+        const dx = cx - (fromX + segX * t);
+        const dy = cy - (fromY + segY * t);
+        if (Math.hypot(dx, dy) < radius) {
+          applyPush(i, dx + p.vx * POINTER.trailCarry, dy + p.vy * POINTER.trailCarry);
+        }
+      }
+    };
+
+    const onDown = (e: PointerEvent) => {
+      const local = toLocal(e);
+      if (!local) return;
+
+      pointers.set(e.pointerId, createPointer(e, local.x, local.y, true));
+    };
+
+    const onMove = (e: PointerEvent) => {
       const now = performance.now();
-      const pr = pointerRef.current;
-      const dt = pr.lastTime ? now - pr.lastTime : 16;
-      const dx = e.clientX - pr.lastX;
-      const dy = e.clientY - pr.lastY;
+      const p = pointers.get(e.pointerId);
+      if (p && now - p.lastTime < POINTER.moveInterval) return;
+
+      const local = toLocal(e);
+      if (!local) return;
 
-      let vx = (dx / dt) * 1000;
-      let vy = (dy / dt) * 1000;
+      // First sighting of a hovering mouse / pen
+      if (!p) {
+        pointers.set(e.pointerId, createPointer(e, local.x, local.y, false));
+        return;
+      }
+
+      const dt = now - p.lastTime;
+      let vx = ((e.clientX - p.lastX) / dt) * 1000;
+      let vy = ((e.clientY - p.lastY) / dt) * 1000;
       let speed = Math.hypot(vx, vy);
 
       if (speed > maxSpeed) {
@@ -274,55 +490,104 @@ useEffect(() => {
         speed = maxSpeed;
       }
 
-      pr.lastTime = now;
-      pr.lastX = e.clientX;
-      pr.lastY = e.clientY;
-      pr.vx = vx;
-      pr.vy = vy;
-      pr.speed = speed;
-
-      const rect = canvasRef.current?.getBoundingClientRect();
-      if (!rect) return;
-      pr.x = e.clientX - rect.left;
-      pr.y = e.clientY - rect.top;
-
-      for (const dot of dotsRef.current) {
-        const dist = Math.hypot(dot.cx - pr.x, dot.cy - pr.y);
-        if (speed > speedTrigger && dist < proximity && !dot._inertiaApplied) {
-          const pushX = (dot.cx - pr.x) + vx * 0.02;
-          const pushY = (dot.cy - pr.y) + vy * 0.02;
-          applyPush(dot, pushX, pushY);
+      const fromX = p.x;
+      const fromY = p.y;
+      p.lastTime = now;
+      p.lastX = e.clientX;
+      p.lastY = e.clientY;
+      p.vx = vx;
+      p.vy = vy;
+      p.x = local.x;
+      p.y = local.y;
+
+      if (p.pressed && e.pointerType !== 'touch') trail(p, fromX, fromY);
+
+      const field = fieldRef.current;
+      for (let i = 0; i < field.count; i++) {
+        const dist = Math.hypot(field.cx[i] - p.x, field.cy[i] - p.y);
+        if (speed > speedTrigger && dist < proximity && !isDotBusy(field, i)) {
+          const pushX = (field.cx[i] - p.x) + vx * 0.02;
+          const pushY = (field.cy[i] - p.y) + vy * 0.02;
+          applyPush(i, pushX, pushY);
         }
       }
     };
 
-    const onClick = (e: MouseEvent) => {
-      const rect = canvasRef.current?.getBoundingClientRect();
-      if (!rect) return;
+    const onUp = (e: PointerEvent) => {
+      const p = pointers.get(e.pointerId);
+      if (!p) return;
 
-      const cx = e.clientX - rect.left;
-      const cy = e.clientY - rect.top;
+      const moved = Math.hypot(e.clientX - p.downX, e.clientY - p.downY);
+      const isTap =
+        p.pressed &&
+        moved < POINTER.tapSlop &&
+        performance.now() - p.downTime < POINTER.tapMaxDuration;
 
-      for (const dot of dotsRef.current) {
-        const dist = Math.hypot(dot.cx - cx, dot.cy - cy);
-        if (dist < shockRadius && !dot._inertiaApplied) {
-          const falloff = Math.max(0, 1 - dist / shockRadius);
-          const pushX = (dot.cx - cx) * shockStrength * falloff;
-          const pushY = (dot.cy - cy) * shockStrength * falloff;
-          applyPush(dot, pushX, pushY);
-        }
+      if (isTap) {
+        const local = toLocal(e);
+        if (local) shockwave(local.x, local.y);
       }
+
+      // A mouse keeps hovering; touches and pens are gone once lifted
+      if (e.pointerType === 'mouse') p.pressed = false;
+      else pointers.delete(e.pointerId);
+    };
+
+    // Browser took over (scroll / pinch): forget the pointer, no shockwave
+    const onCancel = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
     };
 
-    const throttledMove = throttle(onMove, 50);
-    window.addEventListener('mousemove', throttledMove, { passive: true });
-    window.addEventListener('click', onClick);
+    window.addEventListener('pointerdown', onDown, { passive: true });
+    window.addEventListener('pointermove', onMove, { passive: true });
+    window.addEventListener('pointerup', onUp, { passive: true });
+    window.addEventListener('pointercancel', onCancel, { passive: true });
 
     return () => {
-      window.removeEventListener('mousemove', throttledMove);
-      window.removeEventListener('click', onClick);
+      window.removeEventListener('pointerdown', onDown);
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      window.removeEventListener('pointercancel', onCancel);
+      pointers.clear();
+    };
+  }, [interactive, maxSpeed, speedTrigger, proximity, shockRadius, shockStrength, applyPush]);
+
+  // ─────────────────────────────────────────────────────────
+  // Scroll ripple: fast scrolling sends a wave through the grid
+  // ─────────────────────────────────────────────────────────
+  useEffect(() => {
+    if (!interactive || scrollRipple <= 0) return;
+
+    let lastY = window.scrollY;
+    let lastTime = performance.now();
+
+    const onScroll = () => {
+      const now = performance.now();
+      const dt = now - lastTime;
+      if (dt < SCROLL.interval) return;
+
+      const velocity = ((window.scrollY - lastY) / dt) * 1000;
+      lastY = window.scrollY;
+      lastTime = now;
+
+      const speed = Math.min(Math.abs(velocity), maxSpeed);
+      if (speed < SCROLL.minSpeed) return;
+
+      // Dots lag behind the scroll, modulated into a travelling wave
+      const amplitude = -Math.sign(velocity) * (speed / maxSpeed) * scrollRipple * gap;
+      const phase = (now / 1000) * Math.PI;
+      const field = fieldRef.current;
+
+      for (let i = 0; i < field.count; i++) {
+        if (isDotBusy(field, i)) continue;
+        const wave = 0.5 + 0.5 * Math.sin((field.cx[i] / SCROLL.wavelength) * Math.PI * 2 + phase);
+        applyPush(i, 0, amplitude * wave);
+      }
     };
-  }, [maxSpeed, speedTrigger, proximity, shockRadius, shockStrength, applyPush]);
+
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => window.removeEventListener('scroll', onScroll);
+  }, [interactive, scrollRipple, maxSpeed, gap, applyPush]);
 
   // ─────────────────────────────────────────────────────────
   // Render
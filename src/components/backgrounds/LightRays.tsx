@@ -3,6 +3,9 @@
 
 import { useRef, useEffect, useState, useMemo } from 'react';
 import { Renderer, Program, Triangle, Mesh } from 'ogl';
+import { useDeviceCapabilities } from '@/lib/deviceCapabilities';
+import { useGLSurface } from '@/lib/glBudget';
+import { watchContextLoss } from '@/lib/webglContext';
 
 // ============================================================================
 // TYPES
@@ -18,9 +21,28 @@ export type RaysOrigin =
   | 'bottom-right'
   | 'bottom-left';
 
+/** One beam; unset fields fall back to the component-level props */
+export interface LightSource {
+  /** Named edge anchor, or [x, y] as fractions of the container (0-1) */
+  origin: RaysOrigin | [number, number];
+  /** Beam direction (screen space, y down); default: the anchor's, or straight down */
+  direction?: [number, number];
+  color?: string;
+  /** Color at the far end of the beam; the ray fades from color into it */
+  colorEnd?: string;
+  spread?: number;
+  speed?: number;
+  /** Brightness multiplier (default 1) */
+  intensity?: number;
+}
+
 interface LightRaysProps {
   raysOrigin?: RaysOrigin;
   raysColor?: string;
+  /** Far-end color of the single beam, and the default for sources (default: raysColor) */
+  raysColorEnd?: string;
+  /** Several beams in one pass (up to MAX_SOURCES); replaces raysOrigin / raysColor */
+  sources?: LightSource[];
   raysSpeed?: number;
   lightSpread?: number;
   rayLength?: number;
@@ -34,19 +56,36 @@ interface LightRaysProps {
   className?: string;
   maxDpr?: number;
   targetFps?: number;
+  /** Force the CSS fallback (used by the quality tier when frames drop) */
+  forceCSS?: boolean;
 }
 
 type Vec2 = [number, number];
 type Vec3 = [number, number, number];
 
+/** A source with every fallback applied, colors as sRGB channels / 255 */
+interface ResolvedSource {
+  origin: RaysOrigin | Vec2;
+  direction?: Vec2;
+  color: Vec3;
+  colorEnd: Vec3;
+  cssColor: string;
+  spread: number;
+  speed: number;
+  intensity: number;
+}
+
 interface Uniforms {
   iTime: { value: number };
   iResolution: { value: Vec2 };
-  rayPos: { value: Vec2 };
-  rayDir: { value: Vec2 };
-  raysColor: { value: Vec3 };
-  raysSpeed: { value: number };
-  lightSpread: { value: number };
+  sourceCount: { value: number };
+  sourcePos: { value: Vec2[] };
+  sourceDir: { value: Vec2[] };
+  sourceColor: { value: Vec3[] };
+  sourceColorEnd: { value: Vec3[] };
+  sourceSpread: { value: number[] };
+  sourceSpeed: { value: number[] };
+  sourceIntensity: { value: number[] };
   rayLength: { value: number };
   pulsating: { value: number };
   fadeDistance: { value: number };
@@ -57,43 +96,15 @@ interface Uniforms {
   distortion: { value: number };
 }
 
-// ============================================================================
-// DEVICE DETECTION (runs once at module load for SSR safety)
-// ============================================================================
-
-const getInitialCapabilities = () => {
-  if (typeof window === 'undefined') {
-    return {
-      prefersReducedMotion: false,
-      supportsWebGL: true, // Assume true, will verify on mount
-    };
-  }
-
-  const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
-
-  // WebGL support check
-  let supportsWebGL = false;
-  try {
-    const canvas = document.createElement('canvas');
-    const gl = canvas.getContext('webgl') || canvas.getContext('experimental-webgl');
-    supportsWebGL = !!gl;
-    if (gl) {
-      const loseContext = (gl as WebGLRenderingContext).getExtension('WEBGL_lose_context');
-      loseContext?.loseContext();
-    }
-  } catch {
-    supportsWebGL = false;
-  }
-
-  return { prefersReducedMotion, supportsWebGL };
-};
-
 // ============================================================================
 // HELPERS
 // ============================================================================
 
 const DEFAULT_COLOR = '#ffffff';
 
+/** Fixed uniform array size in the shader; extra sources are dropped */
+const MAX_SOURCES = 8;
+
 const hexToRgb = (hex: string): Vec3 => {
   const m = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
   return m
@@ -127,6 +138,67 @@ const getAnchorAndDir = (
   }
 };
 
+const normalize = ([x, y]: Vec2): Vec2 => {
+  const len = Math.hypot(x, y) || 1;
+  return [x / len, y / len];
+};
+
+/** Sources with fallbacks applied; no `sources` means the single legacy beam */
+const resolveSources = (
+  sources: LightSource[] | undefined,
+  fallback: { origin: RaysOrigin; color: string; colorEnd?: string; spread: number; speed: number }
+): ResolvedSource[] => {
+  const list: LightSource[] = sources?.length ? sources : [{ origin: fallback.origin }];
+
+  return list.slice(0, MAX_SOURCES).map((source) => {
+    const color = source.color ?? fallback.color;
+    return {
+      origin: source.origin,
+      direction: source.direction,
+      color: hexToRgb(color),
+      colorEnd: hexToRgb(source.colorEnd ?? fallback.colorEnd ?? color),
+      cssColor: color,
+      spread: source.spread ?? fallback.spread,
+      speed: source.speed ?? fallback.speed,
+      intensity: source.intensity ?? 1,
+    };
+  });
+};
+
+/** Canvas-pixel anchor and direction of a source */
+const placeSource = (source: ResolvedSource, w: number, h: number): { anchor: Vec2; dir: Vec2 } => {
+  const placed =
+    typeof source.origin === 'string'
+      ? getAnchorAndDir(source.origin, w, h)
+      : { anchor: [source.origin[0] * w, source.origin[1] * h] as Vec2, dir: [0, 1] as Vec2 };
+
+  return { anchor: placed.anchor, dir: source.direction ? normalize(source.direction) : placed.dir };
+};
+
+/** Write every source into the uniform arrays (padded to MAX_SOURCES) */
+const applySources = (uniforms: Uniforms, sources: ResolvedSource[], w: number, h: number) => {
+  const count = Math.min(sources.length, MAX_SOURCES);
+  const pad = <T,>(values: T[], empty: T): T[] =>
+    Array.from({ length: MAX_SOURCES }, (_, i) => (i < count ? values[i] : empty));
+  const placed = sources.slice(0, count).map((source) => placeSource(source, w, h));
+
+  uniforms.sourceCount.value = count;
+  uniforms.sourcePos.value = pad(placed.map((p) => p.anchor), [0, 0]);
+  uniforms.sourceDir.value = pad(placed.map((p) => p.dir), [0, 1]);
+  uniforms.sourceColor.value = pad(sources.map((source) => source.color), [0, 0, 0]);
+  uniforms.sourceColorEnd.value = pad(sources.map((source) => source.colorEnd), [0, 0, 0]);
+  uniforms.sourceSpread.value = pad(sources.map((source) => source.spread), 1);
+  uniforms.sourceSpeed.value = pad(sources.map((source) => source.speed), 0);
+  uniforms.sourceIntensity.value = pad(sources.map((source) => source.intensity), 0);
+};
+
+/** CSS position (%) of a source, for the fallback glow */
+const cssPosition = (source: ResolvedSource): string => {
+  const { anchor } = placeSource(source, 100, 100);
+  const clampPct = (n: number) => Math.min(100, Math.max(0, n));
+  return `${clampPct(anchor[0])}% ${clampPct(anchor[1])}%`;
+};
+
 // ============================================================================
 // SHADERS (Simplified for performance)
 // ============================================================================
@@ -142,13 +214,18 @@ void main() {
 const FRAGMENT_SHADER = `
 precision mediump float;
 
+#define MAX_SOURCES ${MAX_SOURCES}
+
 uniform float iTime;
 uniform vec2  iResolution;
-uniform vec2  rayPos;
-uniform vec2  rayDir;
-uniform vec3  raysColor;
-uniform float raysSpeed;
-uniform float lightSpread;
+uniform int   sourceCount;
+uniform vec2  sourcePos[MAX_SOURCES];
+uniform vec2  sourceDir[MAX_SOURCES];
+uniform vec3  sourceColor[MAX_SOURCES];
+uniform vec3  sourceColorEnd[MAX_SOURCES];
+uniform float sourceSpread[MAX_SOURCES];
+uniform float sourceSpeed[MAX_SOURCES];
+uniform float sourceIntensity[MAX_SOURCES];
 uniform float rayLength;
 uniform float pulsating;
 uniform float fadeDistance;
@@ -160,14 +237,14 @@ uniform float distortion;
 
 varying vec2 vUv;
 
-float rayStrength(vec2 raySource, vec2 rayRefDirection, vec2 coord,
+float rayStrength(vec2 raySource, vec2 rayRefDirection, vec2 coord, float spread,
                   float seedA, float seedB, float speed) {
   vec2 sourceToCoord = coord - raySource;
   vec2 dirNorm = normalize(sourceToCoord);
   float cosAngle = dot(dirNorm, rayRefDirection);
 
   float distortedAngle = cosAngle + distortion * sin(iTime * 2.0 + length(sourceToCoord) * 0.01) * 0.2;
-  float spreadFactor = pow(max(distortedAngle, 0.0), 1.0 / max(lightSpread, 0.001));
+  float spreadFactor = pow(max(distortedAngle, 0.0), 1.0 / max(spread, 0.001));
 
   float distance = length(sourceToCoord);
   float maxDistance = iResolution.x * rayLength;
@@ -186,41 +263,70 @@ float rayStrength(vec2 raySource, vec2 rayRefDirection, vec2 coord,
 
 void main() {
   vec2 coord = vec2(gl_FragCoord.x, iResolution.y - gl_FragCoord.y);
-  
-  vec2 finalRayDir = rayDir;
-  if (mouseInfluence > 0.0) {
-    vec2 mouseScreenPos = mousePos * iResolution.xy;
-    vec2 mouseDirection = normalize(mouseScreenPos - rayPos);
-    finalRayDir = normalize(mix(rayDir, mouseDirection, mouseInfluence));
-  }
+  vec2 mouseScreenPos = mousePos * iResolution.xy;
+  float diagonal = length(iResolution);
+
+  vec3 color = vec3(0.0);
+  vec3 beamColor = vec3(1.0);
+  float strength = 0.0;
 
-  vec4 rays1 = vec4(1.0) * rayStrength(rayPos, finalRayDir, coord, 36.2214, 21.11349, 1.5 * raysSpeed);
-  vec4 rays2 = vec4(1.0) * rayStrength(rayPos, finalRayDir, coord, 22.3991, 18.0234, 1.1 * raysSpeed);
+  for (int i = 0; i < MAX_SOURCES; i++) {
+    if (i >= sourceCount) break;
 
-  gl_FragColor = rays1 * 0.5 + rays2 * 0.4;
+    vec2 pos = sourcePos[i];
+    vec2 dir = sourceDir[i];
+    if (mouseInfluence > 0.0) {
+      dir = normalize(mix(dir, normalize(mouseScreenPos - pos), mouseInfluence));
+    }
+
+    float speed = sourceSpeed[i];
+    float spread = sourceSpread[i];
+    float rays =
+      rayStrength(pos, dir, coord, spread, 36.2214, 21.11349, 1.5 * speed) * 0.5 +
+      rayStrength(pos, dir, coord, spread, 22.3991, 18.0234, 1.1 * speed) * 0.4;
+    rays *= sourceIntensity[i];
+
+    // Gradient along the beam: start color at the source, end color a screen diagonal away
+    float along = clamp(length(coord - pos) / diagonal, 0.0, 1.0);
+    beamColor = mix(sourceColor[i], sourceColorEnd[i], along);
+    color += rays * beamColor;
+    strength += rays;
+  }
 
   float brightness = 1.0 - (coord.y / iResolution.y);
-  gl_FragColor.x *= 0.1 + brightness * 0.8;
-  gl_FragColor.y *= 0.3 + brightness * 0.6;
-  gl_FragColor.z *= 0.5 + brightness * 0.5;
+
+  // Single beam: the original cool per-channel tint, saturated before the color
+  if (sourceCount == 1) {
+    color = vec3(strength) * vec3(0.1 + brightness * 0.8, 0.3 + brightness * 0.6, 0.5 + brightness * 0.5);
+    if (saturation != 1.0) {
+      float gray = dot(color, vec3(0.299, 0.587, 0.114));
+      color = mix(vec3(gray), color, saturation);
+    }
+    gl_FragColor = vec4(color * beamColor, strength);
+    return;
+  }
+
+  color *= 0.3 + brightness * 0.65;
 
   if (saturation != 1.0) {
-    float gray = dot(gl_FragColor.rgb, vec3(0.299, 0.587, 0.114));
-    gl_FragColor.rgb = mix(vec3(gray), gl_FragColor.rgb, saturation);
+    float gray = dot(color, vec3(0.299, 0.587, 0.114));
+    color = mix(vec3(gray), color, saturation);
   }
 
-  gl_FragColor.rgb *= raysColor;
+  gl_FragColor = vec4(color, clamp(strength, 0.0, 1.0));
 }`;
 
 // ============================================================================
-// CSS FALLBACK (only used when WebGL unavailable or reduced motion)
+// CSS FALLBACK (WebGL unavailable, reduced motion, or context lost)
 // ============================================================================
 
-const CSSLightRays: React.FC<{ origin: RaysOrigin; color: string; className: string }> = ({
-  origin,
-  color,
-  className,
-}) => {
+const CSSLightRays: React.FC<{
+  origin: RaysOrigin;
+  color: string;
+  className: string;
+  /** Set for multi-source rays: one soft glow per source instead of the wash */
+  sources?: ResolvedSource[];
+}> = ({ origin, color, className, sources }) => {
   const gradientDirection = useMemo(() => {
     switch (origin) {
       case 'top-center': return 'to bottom';
@@ -235,6 +341,19 @@ const CSSLightRays: React.FC<{ origin: RaysOrigin; color: string; className: str
     }
   }, [origin]);
 
+  if (sources) {
+    return (
+      <div
+        className={`w-full h-full pointer-events-none absolute inset-0 ${className}`.trim()}
+        style={{
+          background: sources
+            .map((source) => `radial-gradient(ellipse 40% 35% at ${cssPosition(source)}, ${source.cssColor}1c 0%, transparent 70%)`)
+            .join(', '),
+        }}
+      />
+    );
+  }
+
   return (
     <div
       className={`w-full h-full pointer-events-none absolute inset-0 ${className}`.trim()}
@@ -259,6 +378,8 @@ const CSSLightRays: React.FC<{ origin: RaysOrigin; color: string; className: str
 const LightRays: React.FC<LightRaysProps> = ({
   raysOrigin = 'top-center',
   raysColor = DEFAULT_COLOR,
+  raysColorEnd,
+  sources,
   raysSpeed = 1,
   lightSpread = 0.5,
   rayLength = 3,
@@ -272,6 +393,7 @@ const LightRays: React.FC<LightRaysProps> = ({
   className = '',
   maxDpr = 1.5,
   targetFps = 30,
+  forceCSS = false,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const uniformsRef = useRef<Uniforms | null>(null);
@@ -284,20 +406,42 @@ const LightRays: React.FC<LightRaysProps> = ({
   const smoothMouseRef = useRef({ x: 0.5, y: 0.5 });
   const lastFrameTimeRef = useRef(0);
 
+  const resolvedSources = useMemo(
+    () => resolveSources(sources, {
+      origin: raysOrigin,
+      color: raysColor,
+      colorEnd: raysColorEnd,
+      spread: lightSpread,
+      speed: raysSpeed,
+    }),
+    [sources, raysOrigin, raysColor, raysColorEnd, lightSpread, raysSpeed]
+  );
+  const cssSources = sources?.length ? resolvedSources : undefined;
+  // Read on (re)placement, so moving sources don't rebuild the renderer
+  const sourcesRef = useRef(resolvedSources);
+
   const [isVisible, setIsVisible] = useState(false);
-  
-  // Use lazy initializer to avoid setState in effect
-  const [capabilities] = useState(() => getInitialCapabilities());
+  // Context loss shows the CSS rays; each restore rebuilds the renderer
+  const [contextLost, setContextLost] = useState(false);
+  const [restoreCount, setRestoreCount] = useState(0);
+  const capabilities = useDeviceCapabilities();
 
   // Frame interval based on targetFps prop (use what's passed in, don't nerf it)
   const frameInterval = 1000 / targetFps;
 
-  // Only use CSS fallback when WebGL truly unavailable or user prefers reduced motion
-  const useCSSFallback = !capabilities.supportsWebGL || capabilities.prefersReducedMotion;
+  // CSS when WebGL is unavailable, reduced motion, the quality tier asks for it,
+  // or the page's context budget went to another canvas
+  const wantsWebGL = !forceCSS && capabilities.supportsWebGL && !capabilities.prefersReducedMotion;
+  const surface = useGLSurface(isVisible, { enabled: wantsWebGL });
+  const useCSSFallback = !wantsWebGL || !surface.live;
 
-  // Intersection Observer
   useEffect(() => {
-    if (!containerRef.current) return;
+    sourcesRef.current = resolvedSources;
+  }, [resolvedSources]);
+
+  // Intersection Observer (the container only exists while WebGL is wanted)
+  useEffect(() => {
+    if (!wantsWebGL || !containerRef.current) return;
 
     const observer = new IntersectionObserver(
       ([entry]) => setIsVisible(entry.isIntersecting),
@@ -306,7 +450,7 @@ const LightRays: React.FC<LightRaysProps> = ({
 
     observer.observe(containerRef.current);
     return () => observer.disconnect();
-  }, []);
+  }, [wantsWebGL]);
 
   // WebGL setup (only if not using CSS fallback)
   useEffect(() => {
@@ -342,14 +486,28 @@ const LightRays: React.FC<LightRaysProps> = ({
         }
         containerRef.current.appendChild(gl.canvas);
 
+        const unwatchContext = watchContextLoss(gl.canvas, {
+          onLost: () => {
+            if (animationIdRef.current) {
+              cancelAnimationFrame(animationIdRef.current);
+              animationIdRef.current = null;
+            }
+            setContextLost(true);
+          },
+          onRestored: () => setRestoreCount((count) => count + 1),
+        });
+
         const uniforms: Uniforms = {
           iTime: { value: 0 },
           iResolution: { value: [1, 1] },
-          rayPos: { value: [0, 0] },
-          rayDir: { value: [0, 1] },
-          raysColor: { value: hexToRgb(raysColor) },
-          raysSpeed: { value: raysSpeed },
-          lightSpread: { value: lightSpread },
+          sourceCount: { value: 0 },
+          sourcePos: { value: [] },
+          sourceDir: { value: [] },
+          sourceColor: { value: [] },
+          sourceColorEnd: { value: [] },
+          sourceSpread: { value: [] },
+          sourceSpeed: { value: [] },
+          sourceIntensity: { value: [] },
           rayLength: { value: rayLength },
           pulsating: { value: pulsating ? 1.0 : 0.0 },
           fadeDistance: { value: fadeDistance },
@@ -359,6 +517,7 @@ const LightRays: React.FC<LightRaysProps> = ({
           noiseAmount: { value: noiseAmount },
           distortion: { value: distortion },
         };
+        applySources(uniforms, sourcesRef.current, 1, 1);
         uniformsRef.current = uniforms;
 
         const geometry = new Triangle(gl);
@@ -382,9 +541,7 @@ const LightRays: React.FC<LightRaysProps> = ({
           const h = hCSS * dpr;
 
           uniforms.iResolution.value = [w, h];
-          const { anchor, dir } = getAnchorAndDir(raysOrigin, w, h);
-          uniforms.rayPos.value = anchor;
-          uniforms.rayDir.value = dir;
+          applySources(uniforms, sourcesRef.current, w, h);
         };
 
         // Animation loop with FPS limiting
@@ -420,6 +577,7 @@ const LightRays: React.FC<LightRaysProps> = ({
         window.addEventListener('resize', updatePlacement, { passive: true });
         updatePlacement();
         animationIdRef.current = requestAnimationFrame(loop);
+        setContextLost(false);
 
         // Store cleanup function
         cleanupRef.current = () => {
@@ -428,6 +586,8 @@ const LightRays: React.FC<LightRaysProps> = ({
             animationIdRef.current = null;
           }
           window.removeEventListener('resize', updatePlacement);
+          // Before loseContext() below, which would report a loss
+          unwatchContext();
 
           try {
             const canvas = renderer.gl.canvas;
@@ -460,10 +620,6 @@ const LightRays: React.FC<LightRaysProps> = ({
   }, [
     useCSSFallback,
     isVisible,
-    raysOrigin,
-    raysColor,
-    raysSpeed,
-    lightSpread,
     rayLength,
     pulsating,
     fadeDistance,
@@ -474,6 +630,7 @@ const LightRays: React.FC<LightRaysProps> = ({
     distortion,
     maxDpr,
     frameInterval,
+    restoreCount,
   ]);
 
   // Dynamic uniform updates
@@ -483,9 +640,6 @@ const LightRays: React.FC<LightRaysProps> = ({
     const u = uniformsRef.current;
     const renderer = rendererRef.current;
 
-    u.raysColor.value = hexToRgb(raysColor);
-    u.raysSpeed.value = raysSpeed;
-    u.lightSpread.value = lightSpread;
     u.rayLength.value = rayLength;
     u.pulsating.value = pulsating ? 1.0 : 0.0;
     u.fadeDistance.value = fadeDistance;
@@ -496,15 +650,10 @@ const LightRays: React.FC<LightRaysProps> = ({
 
     const { clientWidth: wCSS, clientHeight: hCSS } = containerRef.current;
     const dpr = renderer.dpr;
-    const { anchor, dir } = getAnchorAndDir(raysOrigin, wCSS * dpr, hCSS * dpr);
-    u.rayPos.value = anchor;
-    u.rayDir.value = dir;
+    applySources(u, resolvedSources, wCSS * dpr, hCSS * dpr);
   }, [
     useCSSFallback,
-    raysColor,
-    raysSpeed,
-    lightSpread,
-    raysOrigin,
+    resolvedSources,
     rayLength,
     pulsating,
     fadeDistance,
@@ -532,16 +681,22 @@ const LightRays: React.FC<LightRaysProps> = ({
   }, [useCSSFallback, followMouse]);
 
   // Use CSS fallback for mobile/reduced motion/no WebGL
-  if (useCSSFallback) {
-    return <CSSLightRays origin={raysOrigin} color={raysColor} className={className} />;
+  if (!wantsWebGL) {
+    return <CSSLightRays origin={raysOrigin} color={raysColor} className={className} sources={cssSources} />;
   }
 
+  // The container stays mounted so visibility keeps reporting to the budget
   return (
-    <div
-      ref={containerRef}
-      className={`w-full h-full pointer-events-none overflow-hidden relative ${className}`.trim()}
-      style={{ contain: 'layout style paint' }}
-    />
+    <>
+      {(contextLost || !surface.live) && (
+        <CSSLightRays origin={raysOrigin} color={raysColor} className={className} sources={cssSources} />
+      )}
+      <div
+        ref={containerRef}
+        className={`w-full h-full pointer-events-none overflow-hidden relative ${className}`.trim()}
+        style={{ contain: 'layout style paint' }}
+      />
+    </>
   );
 };
 
@@ -0,0 +1,43 @@
+// dotField.test.ts — Push / return physics for DotGrid
+
+import { describe, expect, it } from 'vitest';
+
+import { createDotField, isDotBusy, pushDot, returnSpring, stepDotField } from './dotField';
+
+/** Largest frame step DotGrid feeds the field */
+const MAX_STEP = 1 / 30;
+
+/** Push dot 0 out to (x, 0) and step until it rests, tracking its largest offset */
+const pushAndSettle = (returnDuration: number, x: number, dt = MAX_STEP) => {
+  const field = createDotField(1);
+  const spring = returnSpring(returnDuration);
+  pushDot(field, 0, x, 0);
+
+  let peak = 0;
+  let steps = 0;
+  while (isDotBusy(field, 0) && steps < 1000) {
+    stepDotField(field, dt, spring);
+    peak = Math.max(peak, Math.abs(field.ox[0]));
+    steps++;
+  }
+  return { field, peak, seconds: steps * dt };
+};
+
+describe('stepDotField', () => {
+  it('returns to rest within roughly the return duration', () => {
+    const { field, peak, seconds } = pushAndSettle(1.5, 40, 1 / 60);
+
+    expect(peak).toBeCloseTo(40);
+    expect(field.ox[0]).toBe(0);
+    expect(seconds).toBeLessThan(1.5 + 0.15 + 0.1);
+  });
+
+  it('stays stable for short return durations at the largest frame step', () => {
+    for (const returnDuration of [0.25, 0.1, 0.05]) {
+      const { field, peak } = pushAndSettle(returnDuration, 40);
+
+      expect(peak).toBeLessThanOrEqual(40);
+      expect(isDotBusy(field, 0)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,152 @@
+// dotField.ts — Typed-array push / spring-return physics for DotGrid
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Dot state as parallel arrays, indexed by dot */
+export interface DotField {
+  count: number;
+  /** Rest position (px, canvas space) */
+  cx: Float32Array;
+  cy: Float32Array;
+  /** Current offset from rest */
+  ox: Float32Array;
+  oy: Float32Array;
+  /** Offset velocity (px/s), used while returning */
+  vx: Float32Array;
+  vy: Float32Array;
+  /** Push phase: start and target offsets */
+  fromX: Float32Array;
+  fromY: Float32Array;
+  toX: Float32Array;
+  toY: Float32Array;
+  /** Seconds spent in the current push */
+  clock: Float32Array;
+  phase: Uint8Array;
+}
+
+/** Damped spring that reproduces gsap's elastic.out(1, 0.75) over a duration */
+export interface ReturnSpring {
+  /** Oscillation frequency (rad/s) */
+  omega: number;
+  /** Decay rate (1/s) */
+  decay: number;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const PHASE_REST = 0;
+const PHASE_PUSH = 1;
+const PHASE_RETURN = 2;
+
+/** Push-out time (s), eased power2.out */
+const PUSH_DURATION = 0.15;
+/** elastic.out period, as a share of the return duration */
+const ELASTIC_PERIOD = 0.75;
+/** Offsets / speeds below these snap to rest */
+const REST_OFFSET = 0.05;
+const REST_SPEED = 0.5;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function createDotField(count: number): DotField {
+  return {
+    count,
+    cx: new Float32Array(count),
+    cy: new Float32Array(count),
+    ox: new Float32Array(count),
+    oy: new Float32Array(count),
+    vx: new Float32Array(count),
+    vy: new Float32Array(count),
+    fromX: new Float32Array(count),
+    fromY: new Float32Array(count),
+    toX: new Float32Array(count),
+    toY: new Float32Array(count),
+    clock: new Float32Array(count),
+    phase: new Uint8Array(count),
+  };
+}
+
+/**
+ * elastic.out(1, p) is 1 - 2^(-10t) · cos(2πt / p) over normalised time t,
+ * i.e. a damped oscillation: decay = 10·ln2 / duration, ω = 2π / (p · duration).
+ */
+export function returnSpring(returnDuration: number): ReturnSpring {
+  const duration = Math.max(returnDuration, 0.05);
+  const decay = (10 * Math.LN2) / duration;
+  const omega = (2 * Math.PI) / (ELASTIC_PERIOD * duration);
+  return { omega, decay };
+}
+
+/** A dot is busy from its push until it settles back at rest */
+export const isDotBusy = (field: DotField, i: number): boolean => field.phase[i] !== PHASE_REST;
+
+/** Start pushing dot `i` out to offset (x, y) */
+export function pushDot(field: DotField, i: number, x: number, y: number): void {
+  field.fromX[i] = field.ox[i];
+  field.fromY[i] = field.oy[i];
+  field.toX[i] = x;
+  field.toY[i] = y;
+  field.vx[i] = 0;
+  field.vy[i] = 0;
+  field.clock[i] = 0;
+  field.phase[i] = PHASE_PUSH;
+}
+
+/** Advance every moving dot by `dt` seconds */
+export function stepDotField(field: DotField, dt: number, spring: ReturnSpring): void {
+  const { ox, oy, vx, vy, phase, clock } = field;
+
+  // The return is integrated in closed form, so it stays exact for any dt / duration:
+  // x(t) = e^(-γt) · (x0·cos ωt + (v0 + γ·x0) / ω · sin ωt)
+  const { omega, decay } = spring;
+  const fade = Math.exp(-decay * dt);
+  const cos = Math.cos(omega * dt);
+  const sin = Math.sin(omega * dt);
+
+  for (let i = 0; i < field.count; i++) {
+    const state = phase[i];
+    if (state === PHASE_REST) continue;
+
+    if (state === PHASE_PUSH) {
+      clock[i] += dt;
+      const t = Math.min(clock[i] / PUSH_DURATION, 1);
+      const eased = 1 - (1 - t) * (1 - t);
+      ox[i] = field.fromX[i] + (field.toX[i] - field.fromX[i]) * eased;
+      oy[i] = field.fromY[i] + (field.toY[i] - field.fromY[i]) * eased;
+
+      if (t === 1) {
+        // Released with v = -decay · x so the return follows a pure damped cosine
+        vx[i] = -spring.decay * ox[i];
+        vy[i] = -spring.decay * oy[i];
+        phase[i] = PHASE_RETURN;
+      }
+      continue;
+    }
+
+    const bx = (vx[i] + decay * ox[i]) / omega;
+    const by = (vy[i] + decay * oy[i]) / omega;
+    vx[i] = fade * (vx[i] * cos - (decay * bx + omega * ox[i]) * sin);
+    vy[i] = fade * (vy[i] * cos - (decay * by + omega * oy[i]) * sin);
+    ox[i] = fade * (ox[i] * cos + bx * sin);
+    oy[i] = fade * (oy[i] * cos + by * sin);
+
+    if (
+      Math.abs(ox[i]) < REST_OFFSET &&
+      Math.abs(oy[i]) < REST_OFFSET &&
+      Math.abs(vx[i]) < REST_SPEED &&
+      Math.abs(vy[i]) < REST_SPEED
+    ) {
+      ox[i] = 0;
+      oy[i] = 0;
+      vx[i] = 0;
+      vy[i] = 0;
+      phase[i] = PHASE_REST;
+    }
+  }
+}
@@ -0,0 +1,189 @@
+// dotMask.ts — Text / SVG path / image shapes that decide where DotGrid dots go
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface MaskBase {
+  /** Empty margin around the shape, as a share of the grid size (default 0.08) */
+  padding?: number;
+  /** Coverage (0-1) a dot center needs to count as inside (default 0.5) */
+  threshold?: number;
+}
+
+export interface TextMask extends MaskBase {
+  type: 'text';
+  /** Fitted to the grid; '\n' starts a new line */
+  text: string;
+  fontFamily?: string;
+  fontWeight?: number | string;
+}
+
+export interface PathMask extends MaskBase {
+  type: 'path';
+  /** SVG path data */
+  d: string;
+  /** The path's coordinate box, "minX minY width height" */
+  viewBox: string;
+}
+
+export interface ImageMask extends MaskBase {
+  type: 'image';
+  /** Same-origin (or CORS-enabled) image, e.g. a world map PNG / SVG */
+  src: string;
+  /** Read transparency, or brightness (light = inside) (default 'alpha') */
+  channel?: 'alpha' | 'luminance';
+  invert?: boolean;
+  fit?: 'contain' | 'cover';
+}
+
+/** A plain string is shorthand for a text mask */
+export type DotGridMask = string | TextMask | PathMask | ImageMask;
+
+/** 'place' drops dots outside the shape; 'light' keeps them but never lights them */
+export type DotGridMaskMode = 'place' | 'light';
+
+/** True when the point (CSS px, grid space) is inside the shape */
+export type MaskSampler = (x: number, y: number) => boolean;
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const DEFAULT_PADDING = 0.08;
+const DEFAULT_THRESHOLD = 0.5;
+const DEFAULT_FONT_FAMILY = 'system-ui, -apple-system, sans-serif';
+const DEFAULT_FONT_WEIGHT = 900;
+const LINE_HEIGHT = 1.1;
+/** Raster resolution relative to CSS px; dot centers don't need more */
+const RASTER_SCALE = 0.5;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const normalizeMask = (mask: DotGridMask): TextMask | PathMask | ImageMask =>
+  typeof mask === 'string' ? { type: 'text', text: mask } : mask;
+
+/** Changes only when the shape does, so inline mask objects don't rebuild the grid */
+export const maskKey = (mask: DotGridMask | undefined): string =>
+  mask === undefined ? '' : JSON.stringify(normalizeMask(mask));
+
+/** Image masks must load before they can be rasterized */
+export function loadMaskImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`DotGrid mask image failed to load: ${src}`));
+    image.src = src;
+  });
+}
+
+function drawText(ctx: CanvasRenderingContext2D, mask: TextMask, width: number, height: number) {
+  const lines = mask.text.split('\n');
+  const family = mask.fontFamily ?? DEFAULT_FONT_FAMILY;
+  const weight = mask.fontWeight ?? DEFAULT_FONT_WEIGHT;
+  const font = (size: number) => `${weight} ${size}px ${family}`;
+
+  // Measure at 100px, then scale to fit both directions
+  ctx.font = font(100);
+  const widest = Math.max(...lines.map((line) => ctx.measureText(line).width), 1);
+  const size = Math.min((100 * width) / widest, height / (lines.length * LINE_HEIGHT));
+
+  ctx.font = font(size);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const lineStep = size * LINE_HEIGHT;
+  const top = -((lines.length - 1) * lineStep) / 2;
+  lines.forEach((line, i) => ctx.fillText(line, 0, top + i * lineStep));
+}
+
+function drawPath(ctx: CanvasRenderingContext2D, mask: PathMask, width: number, height: number) {
+  const [minX, minY, boxW, boxH] = mask.viewBox.trim().split(/[\s,]+/).map(Number);
+  if (!(boxW > 0 && boxH > 0)) return;
+
+  const scale = Math.min(width / boxW, height / boxH);
+  ctx.scale(scale, scale);
+  ctx.translate(-minX - boxW / 2, -minY - boxH / 2);
+  ctx.fill(new Path2D(mask.d));
+}
+
+function drawImage(
+  ctx: CanvasRenderingContext2D,
+  mask: ImageMask,
+  image: HTMLImageElement,
+  width: number,
+  height: number
+) {
+  const imageW = image.naturalWidth || image.width;
+  const imageH = image.naturalHeight || image.height;
+  if (!imageW || !imageH) return;
+
+  const fitScale = mask.fit === 'cover' ? Math.max : Math.min;
+  const scale = fitScale(width / imageW, height / imageH);
+  ctx.drawImage(image, (-imageW * scale) / 2, (-imageH * scale) / 2, imageW * scale, imageH * scale);
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Rasterize the shape over a width × height grid and return a point test.
+ * Returns null while an image mask has no loaded image, or when the raster
+ * can't be read back (e.g. a cross-origin image without CORS).
+ */
+export function rasterizeMask(
+  mask: TextMask | PathMask | ImageMask,
+  image: HTMLImageElement | null,
+  width: number,
+  height: number
+): MaskSampler | null {
+  if (mask.type === 'image' && !image) return null;
+
+  const rasterW = Math.max(1, Math.ceil(width * RASTER_SCALE));
+  const rasterH = Math.max(1, Math.ceil(height * RASTER_SCALE));
+  const canvas = document.createElement('canvas');
+  canvas.width = rasterW;
+  canvas.height = rasterH;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  // Draw centered in the padded box, in CSS px
+  const padding = mask.padding ?? DEFAULT_PADDING;
+  const innerW = width * (1 - padding * 2);
+  const innerH = height * (1 - padding * 2);
+  ctx.scale(RASTER_SCALE, RASTER_SCALE);
+  ctx.translate(width / 2, height / 2);
+  ctx.fillStyle = '#ffffff';
+
+  if (mask.type === 'text') drawText(ctx, mask, innerW, innerH);
+  else if (mask.type === 'path') drawPath(ctx, mask, innerW, innerH);
+  else if (image) drawImage(ctx, mask, image, innerW, innerH);
+
+  let data: Uint8ClampedArray;
+  try {
+    data = ctx.getImageData(0, 0, rasterW, rasterH).data;
+  } catch {
+    return null;
+  }
+
+  const threshold = (mask.threshold ?? DEFAULT_THRESHOLD) * 255;
+  const useLuminance = mask.type === 'image' && mask.channel === 'luminance';
+  const invert = mask.type === 'image' && Boolean(mask.invert);
+
+  return (x, y) => {
+    const px = Math.floor(x * RASTER_SCALE);
+    const py = Math.floor(y * RASTER_SCALE);
+    if (px < 0 || py < 0 || px >= rasterW || py >= rasterH) return invert;
+
+    const o = (py * rasterW + px) * 4;
+    const alpha = data[o + 3];
+    const value = useLuminance
+      ? ((0.2126 * data[o] + 0.7152 * data[o + 1] + 0.0722 * data[o + 2]) * alpha) / 255
+      : alpha;
+    return value >= threshold !== invert;
+  };
+}
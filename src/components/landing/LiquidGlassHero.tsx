@@ -1,85 +1,30 @@
 // LiquidGlassHero.tsx — Optimized for performance across all devices
 'use client';
 
-import { useEffect, useLayoutEffect, useMemo, useRef, useState, useCallback } from 'react';
-import type { RefObject } from 'react';
+import { useEffect, useId, useLayoutEffect, useMemo, useRef, useState, useCallback } from 'react';
+import type { ComponentType, PointerEvent as ReactPointerEvent, RefObject } from 'react';
 import {
   motion,
+  motionValue,
   MotionValue,
   useMotionValue,
   useSpring,
   useTransform,
   useScroll,
+  useMotionValueEvent,
 } from 'framer-motion';
 
-import { LOGO_COMPONENTS } from '@/components/loader/FaangLogos';
-import { BRAND_COLORS, Company } from '@/lib/brandColors';
+import type { LogoProps } from '@/components/loader/FaangLogos';
+import { getLogo } from '@/components/loader/logoRegistry';
+import type { LogoTuning } from '@/components/loader/logoRegistry';
+import { logoTuning } from '@/components/loader/opticalTuning';
+import { useDeviceCapabilities } from '@/lib/deviceCapabilities';
+import { useQualityMonitor, useQualityTier } from '@/lib/qualityTier';
 import LightRays from '@/components/backgrounds/LightRays';
+import type { LightSource } from '@/components/backgrounds/LightRays';
 import GlassSurface from '@/components/ui/GlassSurface';
 import TextShiny from '@/components/ui/TextShiny';
 
-// ============================================================================
-// DEVICE DETECTION
-// ============================================================================
-
-interface DeviceCapabilities {
-  isMobile: boolean;
-  isLowPower: boolean;
-  prefersReducedMotion: boolean;
-  screenWidth: number;
-}
-
-const useDeviceCapabilities = (): DeviceCapabilities => {
-  const [capabilities, setCapabilities] = useState<DeviceCapabilities>({
-    isMobile: false,
-    isLowPower: false,
-    prefersReducedMotion: false,
-    screenWidth: typeof window !== 'undefined' ? window.innerWidth : 1024,
-  });
-
-  useEffect(() => {
-    const detectCapabilities = () => {
-      const ua = navigator.userAgent;
-      const isMobile = /Android|iPhone|iPad|iPod|webOS|BlackBerry|IEMobile|Opera Mini/i.test(ua) ||
-                       window.innerWidth < 768;
-      const isLowPower = isMobile ||
-                         (navigator.hardwareConcurrency !== undefined && navigator.hardwareConcurrency <= 4);
-      const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
-
-      setCapabilities({
-        isMobile,
-        isLowPower,
-        prefersReducedMotion,
-        screenWidth: window.innerWidth,
-      });
-    };
-
-    detectCapabilities();
-
-    // Throttled resize handler
-    let resizeTimeout: NodeJS.Timeout | null = null;
-    const handleResize = () => {
-      if (resizeTimeout) clearTimeout(resizeTimeout);
-      resizeTimeout = setTimeout(detectCapabilities, 150);
-    };
-
-    // Listen for reduced motion changes
-    const motionQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
-    const handleMotionChange = () => detectCapabilities();
-    motionQuery.addEventListener('change', handleMotionChange);
-
-    window.addEventListener('resize', handleResize, { passive: true });
-    
-    return () => {
-      if (resizeTimeout) clearTimeout(resizeTimeout);
-      window.removeEventListener('resize', handleResize);
-      motionQuery.removeEventListener('change', handleMotionChange);
-    };
-  }, []);
-
-  return capabilities;
-};
-
 // ============================================================================
 // CONFIG
 // ============================================================================
@@ -96,6 +41,14 @@ const LIGHT_RAYS_CONFIG = {
   noiseAmount: 0.01,
 };
 
+/** One brand-colored beam per orb, aimed away from the pill */
+const ORB_BEAMS = {
+  spread: 0.35,
+  intensity: 0.6,
+  /** Beams fade from the orb's accent into the site glow */
+  colorEnd: '#6366f1',
+};
+
 // Lighter spring configs for better performance
 const SPRING_CONFIG = {
   pull: { stiffness: 45, damping: 26, mass: 1.2 },
@@ -105,6 +58,21 @@ const SPRING_CONFIG = {
   mobile: { stiffness: 80, damping: 30, mass: 0.5 },
 };
 
+// Pointer pull toward the cursor while hovering an orb (desktop, full motion)
+const MAGNET_CONFIG = {
+  /** Share of the cursor's offset from the orb center the orb follows */
+  strength: 0.3,
+  /** Max pull in px */
+  maxPull: 14,
+};
+
+// Hover / focus boost for the glass
+const ACTIVE_GLASS = {
+  scale: 1.04,
+  distortionMult: 1.35,
+  brightnessBoost: 10,
+};
+
 const FLOAT_CONFIG = {
   xPeriod: 2600,
   yPeriod: 3200,
@@ -112,30 +80,55 @@ const FLOAT_CONFIG = {
   amplitudeMobile: 3,
 };
 
-type Slot = 'topLeft' | 'top' | 'topRight' | 'bottomLeft' | 'bottomRight';
+// How far the pill rises once the orbs have detached
+const PILL_LIFT = {
+  mobile: 115,
+  desktop: 175,
+};
 
-interface OrbConfig {
-  id: Company;
-  slot: Slot;
-  color: string;
+const ORB_LAYOUT = {
+  /** Orbs in the first row; rows then alternate one fewer (3 + 2 + 3 …) */
+  baseRowSize: 3,
+  /** Orbs shrink down to this scale before the layout gives up on fitting */
+  minScale: 0.75,
+  scaleStep: 0.05,
+  /** Total scroll spread of the detach stagger (5 orbs → 0.035 each, as before) */
+  staggerSpread: 0.14,
+  maxStagger: 0.035,
+};
+
+export interface HeroOrb {
+  /** Unique key */
+  id: string;
+  /** Logo registry id, or an unregistered component taking `size` */
+  logo: string | ComponentType<LogoProps>;
+  /** Accessible name (registered logos default to theirs) */
+  label?: string;
+  /** Hover ring / glow color (registered logos default to their accent) */
+  color?: string;
+  /** Optical correction (registered logos default to theirs, or a measured one) */
+  tuning?: LogoTuning;
 }
 
-const ORBS: OrbConfig[] = [
-  { id: 'tesla', slot: 'topLeft', color: '#E82127' },
-  { id: 'microsoft', slot: 'top', color: BRAND_COLORS.microsoft?.[2] ?? '#00A4EF' },
-  { id: 'meta', slot: 'topRight', color: BRAND_COLORS.meta?.[0] ?? '#0866FF' },
-  { id: 'apple', slot: 'bottomLeft', color: '#E8E8E8' },
-  { id: 'google', slot: 'bottomRight', color: BRAND_COLORS.google?.[0] ?? '#4285F4' },
+export const DEFAULT_ORBS: HeroOrb[] = [
+  { id: 'tesla', logo: 'tesla' },
+  { id: 'microsoft', logo: 'microsoft' },
+  { id: 'meta', logo: 'meta' },
+  { id: 'apple', logo: 'apple' },
+  { id: 'google', logo: 'google' },
 ];
 
-const LOGO_TUNING: Record<Company, { mult: number; translateX?: number; translateY?: number }> = {
-  tesla: { mult: 1.1, translateX: 0, translateY: 8 },
-  microsoft: { mult: 1.0, translateX: 0, translateY: 0 },
-  meta: { mult: 1.05, translateX: 0, translateY: 0 },
-  apple: { mult: 1.08, translateX: 0, translateY: -2 },
-  google: { mult: 1.05, translateX: 0, translateY: 0 },
-  amazon: { mult: 1.0 },
-  tiktok: { mult: 1.0 },
+/** Fill an orb's defaults from the logo registry */
+const resolveOrb = (orb: HeroOrb) => {
+  const registered = typeof orb.logo === 'string' ? getLogo(orb.logo) : null;
+
+  return {
+    Logo: registered?.component ?? (orb.logo as ComponentType<LogoProps>),
+    label: orb.label ?? registered?.name ?? orb.id,
+    color: orb.color ?? registered?.accent ?? '#ffffff',
+    tuning: orb.tuning ?? registered?.tuning,
+    source: registered?.source,
+  };
 };
 
 // ============================================================================
@@ -144,6 +137,18 @@ const LOGO_TUNING: Record<Company, { mult: number; translateX?: number; translat
 
 const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n));
 
+/** Scroll progress at which orb `index` leaves the pill, stretches and settles */
+const orbTimeline = (index: number, staggerStep: number) => {
+  const startAt = 0.17 + index * staggerStep;
+  return { startAt, stretchAt: startAt + 0.06, settleAt: startAt + 0.16 };
+};
+
+/** Orb glass fade-in window around its settle point (0 → 1) */
+const ORB_REVEAL = { lead: 0.01, length: 0.05 };
+
+const orbReveal = (progress: number, index: number, staggerStep: number) =>
+  clamp((progress - (orbTimeline(index, staggerStep).settleAt - ORB_REVEAL.lead)) / ORB_REVEAL.length, 0, 1);
+
 const useViewportSize = () => {
   const [vp, setVp] = useState({ width: 0, height: 0 });
 
@@ -187,6 +192,88 @@ const useElementSize = <T extends HTMLElement>() => {
   return { ref, size };
 };
 
+// ============================================================================
+// ORB LAYOUT
+// Rows below the pill: full rows at stepX spacing, staggered rows one orb
+// shorter and a little wider (two orbs sit at ±0.55 · stepX). Rows widen
+// before orbs shrink, so the default five keep their 3 + 2 arrangement.
+// ============================================================================
+
+interface OrbPosition {
+  x: number;
+  y: number;
+}
+
+interface OrbLayoutInput {
+  count: number;
+  orbSize: number;
+  pillHeight: number;
+  isMobile: boolean;
+  viewport: { width: number; height: number };
+}
+
+interface OrbLayout {
+  orbSize: number;
+  positions: OrbPosition[];
+}
+
+const rowSizesFor = (count: number, rowSize: number): number[] => {
+  const rows: number[] = [];
+  for (let left = count, row = 0; left > 0; row++) {
+    const capacity = row % 2 === 0 ? rowSize : Math.max(1, rowSize - 1);
+    rows.push(Math.min(capacity, left));
+    left -= capacity;
+  }
+  return rows;
+};
+
+const layoutOrbs = ({ count, orbSize: baseOrbSize, pillHeight, isMobile, viewport }: OrbLayoutInput): OrbLayout => {
+  const gapFromPill = isMobile ? 22 : 32;
+  const safePad = isMobile ? 12 : 18;
+  const lift = isMobile ? PILL_LIFT.mobile : PILL_LIFT.desktop;
+
+  const build = (orbSize: number, rowSize: number) => {
+    const row1Y = pillHeight / 2 + gapFromPill + orbSize / 2;
+    const stepY = orbSize * (isMobile ? 1.0 : 1.05);
+    const stepX = orbSize * (isMobile ? 1.95 : 2.2);
+
+    const rows = rowSizesFor(count, rowSize);
+    const positions = rows.flatMap((n, row) => {
+      const spacing = row % 2 === 0 ? stepX : stepX * 1.1;
+      return Array.from({ length: n }, (_, i) => ({
+        x: (i - (n - 1) / 2) * spacing,
+        y: row1Y + row * stepY,
+      }));
+    });
+
+    const halfWidth = Math.max(...positions.map((p) => Math.abs(p.x))) + orbSize / 2;
+    const bottom = row1Y + (rows.length - 1) * stepY + orbSize / 2;
+    const fits =
+      halfWidth <= viewport.width / 2 - safePad && bottom <= viewport.height / 2 + lift - safePad;
+
+    return { layout: { orbSize, positions }, fits };
+  };
+
+  const fallback = build(baseOrbSize, ORB_LAYOUT.baseRowSize).layout;
+  if (count === 0 || !viewport.width || !viewport.height) return fallback;
+
+  for (let scale = 1; scale >= ORB_LAYOUT.minScale - 1e-6; scale -= ORB_LAYOUT.scaleStep) {
+    const orbSize = Math.round(baseOrbSize * scale);
+    for (let rowSize = ORB_LAYOUT.baseRowSize; rowSize <= Math.max(count, ORB_LAYOUT.baseRowSize); rowSize++) {
+      const attempt = build(orbSize, rowSize);
+      if (attempt.fits) return attempt.layout;
+    }
+  }
+
+  // Nothing fits (tiny viewport / huge roster): smallest orbs, default rows
+  return build(Math.round(baseOrbSize * ORB_LAYOUT.minScale), ORB_LAYOUT.baseRowSize).layout;
+};
+
+interface OrbMagnet {
+  x: MotionValue<number>;
+  y: MotionValue<number>;
+}
+
 const useTransform2 = (
   a: MotionValue<number>,
   b: MotionValue<number>,
@@ -290,13 +377,20 @@ const FaintStars = ({ reduced = false }: { reduced?: boolean }) => {
 // MAIN COMPONENT
 // ============================================================================
 
-export function LiquidGlassHero() {
+interface LiquidGlassHeroProps {
+  /** Orbs that detach from the pill, in reading order (default: DEFAULT_ORBS) */
+  orbs?: HeroOrb[];
+}
+
+export function LiquidGlassHero({ orbs = DEFAULT_ORBS }: LiquidGlassHeroProps = {}) {
   const sectionRef = useRef<HTMLElement>(null);
   const capabilities = useDeviceCapabilities();
+  const { settings: quality } = useQualityTier();
   const viewport = useViewportSize();
   const [isInView, setIsInView] = useState(false);
 
-  const { isMobile, prefersReducedMotion } = capabilities;
+  // isMobile also covers narrow desktop windows (see deviceCapabilities)
+  const { prefersReducedMotion, isMobile } = capabilities;
 
   // Intersection Observer for performance
   useEffect(() => {
@@ -311,6 +405,9 @@ export function LiquidGlassHero() {
     return () => observer.disconnect();
   }, []);
 
+  // Measure real frame times while the hero is on screen
+  useQualityMonitor(isInView);
+
   const { scrollYProgress: rawScrollYProgress } = useScroll({
     target: sectionRef,
     offset: ['start start', 'end end'],
@@ -352,8 +449,6 @@ export function LiquidGlassHero() {
       return clamp(Math.round(target), isMobile ? 65 : 95, isMobile ? 80 : 115);
     })();
 
-    const baseLogoSizeCalc = Math.round(orbSizeCalc * 0.52);
-
     const fallbackTextW = isMobile ? 200 : 520;
     const fallbackTextH = isMobile ? 40 : 80;
     const baseTextW = textSize.width || fallbackTextW;
@@ -369,35 +464,79 @@ export function LiquidGlassHero() {
     const pillWidthCalc = clamp(Math.round(baseTextW + padX * 2), isMobile ? 220 : 400, maxPillWidth);
     const pillHeightCalc = clamp(Math.round(baseTextH + padY * 2), isMobile ? 64 : 84, isMobile ? 80 : 105);
 
-    // Layout calculation
-    const gapFromPill = isMobile ? 22 : 32;
-    const row1Y = pillHeightCalc / 2 + gapFromPill + orbSizeCalc / 2;
-    const row2Y = row1Y + orbSizeCalc * (isMobile ? 1.0 : 1.05);
-    const stepX = orbSizeCalc * (isMobile ? 1.95 : 2.2);
-    const row2X = stepX * 0.55;
-
-    const layoutCalc: Record<Slot, { x: number; y: number }> = {
-      topLeft: { x: -stepX, y: row1Y },
-      top: { x: 0, y: row1Y },
-      topRight: { x: stepX, y: row1Y },
-      bottomLeft: { x: -row2X, y: row2Y },
-      bottomRight: { x: row2X, y: row2Y },
-    };
+    // Layout calculation (may shrink the orbs to fit a long roster)
+    const layoutCalc = layoutOrbs({
+      count: orbs.length,
+      orbSize: orbSizeCalc,
+      pillHeight: pillHeightCalc,
+      isMobile,
+      viewport,
+    });
 
     return {
-      orbSize: orbSizeCalc,
-      baseLogoSize: baseLogoSizeCalc,
+      orbSize: layoutCalc.orbSize,
+      baseLogoSize: Math.round(layoutCalc.orbSize * 0.52),
       pillWidth: pillWidthCalc,
       pillHeight: pillHeightCalc,
-      layout: layoutCalc,
+      layout: layoutCalc.positions,
     };
-  }, [isMobile, viewport.width, textSize]);
+  }, [isMobile, viewport, textSize, orbs.length]);
+
+  // Magnetic offsets, shared by each orb and its gooey blob so they move together
+  const magnets = useMemo<OrbMagnet[]>(
+    () => orbs.map(() => ({ x: motionValue(0), y: motionValue(0) })),
+    [orbs]
+  );
+
+  // Detach stagger, compressed for long rosters so every orb settles in time
+  const staggerStep = Math.min(ORB_LAYOUT.maxStagger, ORB_LAYOUT.staggerSpread / Math.max(1, orbs.length - 1));
 
   // Motion transforms
+  const pillLift = isMobile ? PILL_LIFT.mobile : PILL_LIFT.desktop;
+
+  // Scroll progress through the orb reveals, in 1% steps so scrolling re-renders
+  // the hero only a few times per orb (and not at all outside the reveals)
+  const revealWindow = useMemo(
+    () => ({
+      from: orbTimeline(0, staggerStep).settleAt - ORB_REVEAL.lead,
+      to: orbTimeline(orbs.length - 1, staggerStep).settleAt - ORB_REVEAL.lead + ORB_REVEAL.length,
+    }),
+    [orbs.length, staggerStep]
+  );
+  const toBeamProgress = (p: number) => Math.round(clamp(p, revealWindow.from, revealWindow.to) * 100) / 100;
+  const [beamProgress, setBeamProgress] = useState(() => toBeamProgress(scrollYProgress.get()));
+  useMotionValueEvent(scrollYProgress, 'change', (p) => setBeamProgress(toBeamProgress(p)));
+
+  // Beams sit at each orb's settled spot and fade in with its glass; the white
+  // top wash shows until the first orb lands (and until the viewport is measured)
+  const raySources = useMemo<LightSource[] | undefined>(() => {
+    if (!viewport.width || !viewport.height) return undefined;
+
+    const firstReveal = orbReveal(beamProgress, 0, staggerStep);
+    if (firstReveal === 0) return undefined;
+
+    const beams: LightSource[] = orbs.map((orb, i) => {
+      const { x, y } = layout[i];
+      return {
+        origin: [0.5 + x / viewport.width, 0.5 + (y - pillLift) / viewport.height],
+        direction: [x, y],
+        color: resolveOrb(orb).color,
+        colorEnd: ORB_BEAMS.colorEnd,
+        spread: ORB_BEAMS.spread,
+        intensity: ORB_BEAMS.intensity * orbReveal(beamProgress, i, staggerStep),
+      };
+    });
+
+    // Wash fades out as the first orb fades in (last, so a full roster drops it first)
+    if (firstReveal < 1) {
+      beams.push({ origin: LIGHT_RAYS_CONFIG.origin, intensity: 1 - firstReveal });
+    }
+    return beams;
+  }, [orbs, layout, viewport, pillLift, beamProgress, staggerStep]);
   const pillY = useTransform(
     scrollYProgress,
     [0, 0.08, 0.4, 1],
-    [0, isMobile ? -90 : -140, isMobile ? -115 : -175, isMobile ? -115 : -175]
+    [0, isMobile ? -90 : -140, -pillLift, -pillLift]
   );
 
   const pillOpacity = useTransform(scrollYProgress, [0, 0.06, 0.16, 0.7, 1], [0, 0.4, 1, 1, 0.9]);
@@ -408,11 +547,11 @@ export function LiquidGlassHero() {
   const lightRaysOpacity = useTransform(scrollYProgress, [0, 0.15, 0.5, 0.8], [0.85, 0.7, 0.4, 0.2]);
   const starsOpacity = useTransform(scrollYProgress, [0, 0.3, 0.6], [0.3, 0.5, 0.3]);
 
-  // Performance settings
+  // Performance settings (quality tier, capped further on mobile)
   const perfSettings = useMemo(() => ({
-    maxDpr: isMobile ? 1 : 1.5,
-    targetFps: isMobile ? 20 : 30,
-  }), [isMobile]);
+    maxDpr: isMobile ? Math.min(1, quality.maxDpr) : quality.maxDpr,
+    targetFps: isMobile ? Math.min(20, quality.targetFps) : quality.targetFps,
+  }), [isMobile, quality.maxDpr, quality.targetFps]);
 
   return (
     <section
@@ -429,6 +568,7 @@ export function LiquidGlassHero() {
             <LightRays
               raysOrigin={LIGHT_RAYS_CONFIG.origin}
               raysColor={LIGHT_RAYS_CONFIG.color}
+              sources={raySources}
               raysSpeed={LIGHT_RAYS_CONFIG.speed}
               lightSpread={LIGHT_RAYS_CONFIG.lightSpread}
               rayLength={LIGHT_RAYS_CONFIG.rayLength}
@@ -440,14 +580,17 @@ export function LiquidGlassHero() {
               mouseInfluence={isMobile ? 0 : 0.08}
               maxDpr={perfSettings.maxDpr}
               targetFps={perfSettings.targetFps}
+              forceCSS={!quality.webglRays}
             />
           </motion.div>
         )}
 
-        {/* Stars */}
-        <motion.div className="absolute inset-0 z-0" style={{ opacity: starsOpacity }}>
-          <FaintStars reduced={prefersReducedMotion} />
-        </motion.div>
+        {/* Stars - dropped on the low tier */}
+        {quality.stars && (
+          <motion.div className="absolute inset-0 z-0" style={{ opacity: starsOpacity }}>
+            <FaintStars reduced={prefersReducedMotion} />
+          </motion.div>
+        )}
 
         {/* Gooey Blobs - skip on reduced motion */}
         {!prefersReducedMotion && (
@@ -468,18 +611,20 @@ export function LiquidGlassHero() {
               }}
             />
 
-            {ORBS.map((o, i) => (
+            {orbs.map((o, i) => (
               <GooeyBlob
                 key={`blob-${o.id}`}
                 index={i}
+                staggerStep={staggerStep}
+                magnet={magnets[i]}
                 scrollProgress={scrollYProgress}
                 pillHeight={pillHeight}
                 pillY={pillY}
                 time={time}
                 isMobile={isMobile}
                 orbSize={orbSize}
-                targetX={layout[o.slot].x}
-                targetY={layout[o.slot].y}
+                targetX={layout[i].x}
+                targetY={layout[i].y}
                 viewportWidth={viewport.width}
               />
             ))}
@@ -511,11 +656,14 @@ export function LiquidGlassHero() {
           </motion.div>
 
           {/* Glass Orbs */}
-          {ORBS.map((o, i) => (
+          {orbs.map((o, i) => (
             <GlassSurfaceOrb
               key={`orb-${o.id}`}
               config={o}
               index={i}
+              staggerStep={staggerStep}
+              magnet={magnets[i]}
+              reducedMotion={prefersReducedMotion}
               scrollProgress={scrollYProgress}
               pillHeight={pillHeight}
               pillY={pillY}
@@ -523,9 +671,10 @@ export function LiquidGlassHero() {
               isMobile={isMobile}
               orbSize={orbSize}
               baseLogoSize={baseLogoSize}
-              targetX={layout[o.slot].x}
-              targetY={layout[o.slot].y}
+              targetX={layout[i].x}
+              targetY={layout[i].y}
               viewportWidth={viewport.width}
+              simpleGlass={!quality.refractiveGlass}
             />
           ))}
         </div>
@@ -624,6 +773,8 @@ const GlassPill = ({ pillWidth, pillHeight, isMobile }: GlassPillProps) => (
 
 interface GooeyBlobProps {
   index: number;
+  staggerStep: number;
+  magnet: OrbMagnet;
   scrollProgress: MotionValue<number>;
   pillHeight: number;
   pillY: MotionValue<number>;
@@ -637,6 +788,8 @@ interface GooeyBlobProps {
 
 const GooeyBlob = ({
   index,
+  staggerStep,
+  magnet,
   scrollProgress,
   pillHeight,
   pillY,
@@ -647,10 +800,7 @@ const GooeyBlob = ({
   targetY,
   viewportWidth,
 }: GooeyBlobProps) => {
-  const staggerDelay = index * 0.035;
-  const startAt = 0.17 + staggerDelay;
-  const stretchAt = startAt + 0.06;
-  const settleAt = startAt + 0.16;
+  const { startAt, stretchAt, settleAt } = orbTimeline(index, staggerStep);
 
   const startY = pillHeight / 2 - orbSize * 0.35;
 
@@ -675,13 +825,17 @@ const GooeyBlob = ({
   const floatX = useTransform(time, (t) => Math.sin(t / FLOAT_CONFIG.xPeriod + phase) * floatAmp);
   const floatY = useTransform(time, (t) => Math.cos(t / FLOAT_CONFIG.yPeriod + phase * 1.3) * floatAmp * 0.7);
 
+  const magnetX = useSpring(magnet.x, springConfig);
+  const magnetY = useSpring(magnet.y, springConfig);
+
   const xWithFloat = useTransform2(xSpring, floatX, (bx, fx) => bx + fx);
   const yWithFloat = useTransform2(ySpring, floatY, (by, fy) => by + fy);
-  const y = useTransform2(yWithFloat, pillY, (yy, py) => yy + py);
+  const yWithMagnet = useTransform2(yWithFloat, magnetY, (yy, my) => yy + my);
+  const y = useTransform2(yWithMagnet, pillY, (yy, py) => yy + py);
 
   const safePad = isMobile ? 12 : 18;
   const maxX = viewportWidth > 0 ? Math.max(0, viewportWidth / 2 - orbSize / 2 - safePad) : 9999;
-  const x = useTransform(xWithFloat, (v) => clamp(v, -maxX, maxX));
+  const x = useTransform2(xWithFloat, magnetX, (v, mx) => clamp(v + mx, -maxX, maxX));
 
   const opacity = useTransform(scrollProgress, [startAt, startAt + 0.04], [0, 1]);
 
@@ -777,8 +931,9 @@ const DatafluentText = ({ textRef, isMobile, scrollProgress, prefersReducedMotio
 // ============================================================================
 
 interface GlassSurfaceOrbProps {
-  config: OrbConfig;
+  config: HeroOrb;
   index: number;
+  staggerStep: number;
   scrollProgress: MotionValue<number>;
   pillHeight: number;
   pillY: MotionValue<number>;
@@ -789,11 +944,17 @@ interface GlassSurfaceOrbProps {
   targetX: number;
   targetY: number;
   viewportWidth: number;
+  simpleGlass: boolean;
+  magnet: OrbMagnet;
+  reducedMotion: boolean;
 }
 
 const GlassSurfaceOrb = ({
   config,
   index,
+  staggerStep,
+  magnet,
+  reducedMotion,
   scrollProgress,
   pillHeight,
   pillY,
@@ -804,14 +965,15 @@ const GlassSurfaceOrb = ({
   targetX,
   targetY,
   viewportWidth,
+  simpleGlass,
 }: GlassSurfaceOrbProps) => {
-  const Logo = LOGO_COMPONENTS[config.id];
+  const { Logo, label, color, tuning, source } = resolveOrb(config);
   const [isHovered, setIsHovered] = useState(false);
+  const [isFocused, setIsFocused] = useState(false);
+  const isActive = isHovered || isFocused;
+  const tooltipId = useId();
 
-  const staggerDelay = index * 0.035;
-  const startAt = 0.17 + staggerDelay;
-  const stretchAt = startAt + 0.06;
-  const settleAt = startAt + 0.16;
+  const { startAt, stretchAt, settleAt } = orbTimeline(index, staggerStep);
 
   const startY = pillHeight / 2 - orbSize * 0.35;
 
@@ -836,28 +998,63 @@ const GlassSurfaceOrb = ({
   const floatX = useTransform(time, (t) => Math.sin(t / FLOAT_CONFIG.xPeriod + phase) * floatAmp);
   const floatY = useTransform(time, (t) => Math.cos(t / FLOAT_CONFIG.yPeriod + phase * 1.3) * floatAmp * 0.7);
 
+  const magnetX = useSpring(magnet.x, springConfig);
+  const magnetY = useSpring(magnet.y, springConfig);
+
   const xWithFloat = useTransform2(xSpring, floatX, (bx, fx) => bx + fx);
   const yWithFloat = useTransform2(ySpring, floatY, (by, fy) => by + fy);
-  const y = useTransform2(yWithFloat, pillY, (yy, py) => yy + py);
+  const yWithMagnet = useTransform2(yWithFloat, magnetY, (yy, my) => yy + my);
+  const y = useTransform2(yWithMagnet, pillY, (yy, py) => yy + py);
 
   const safePad = isMobile ? 12 : 18;
   const maxX = viewportWidth > 0 ? Math.max(0, viewportWidth / 2 - orbSize / 2 - safePad) : 9999;
-  const x = useTransform(xWithFloat, (v) => clamp(v, -maxX, maxX));
+  const x = useTransform2(xWithFloat, magnetX, (v, mx) => clamp(v + mx, -maxX, maxX));
 
-  const opacity = useTransform(scrollProgress, [settleAt - 0.01, settleAt + 0.04], [0, 1]);
+  const opacity = useTransform(
+    scrollProgress,
+    [settleAt - ORB_REVEAL.lead, settleAt - ORB_REVEAL.lead + ORB_REVEAL.length],
+    [0, 1]
+  );
   const popScale = useTransform(scrollProgress, [settleAt - 0.03, settleAt, settleAt + 0.04], [0.85, 1.03, 1]);
   const scale = useSpring(popScale, isMobile ? SPRING_CONFIG.mobile : SPRING_CONFIG.scale);
 
-  const tune = LOGO_TUNING[config.id] ?? { mult: 1.0 };
+  const tune = useMemo(() => logoTuning(source, tuning, baseLogoSize), [source, tuning, baseLogoSize]);
+
+  // Out of the tab order and the accessibility tree until the glass has faded in
+  const isRevealed = (p: number) => orbReveal(p, index, staggerStep) >= 0.5;
+  const [revealed, setRevealed] = useState(() => isRevealed(scrollProgress.get()));
+  useMotionValueEvent(scrollProgress, 'change', (p) => setRevealed(isRevealed(p)));
   const logoSize = Math.round(baseLogoSize * tune.mult);
   const logoTransform = `translate(${tune.translateX ?? 0}px, ${tune.translateY ?? 0}px)`;
 
   const handleHover = useCallback(() => setIsHovered(true), []);
-  const handleLeave = useCallback(() => setIsHovered(false), []);
+  const handleLeave = useCallback(() => {
+    setIsHovered(false);
+    magnet.x.set(0);
+    magnet.y.set(0);
+  }, [magnet]);
+  const handleFocus = useCallback(() => setIsFocused(true), []);
+  const handleBlur = useCallback(() => setIsFocused(false), []);
+
+  // Magnetic pull: the orb (and its blob) lean toward a hovering mouse
+  const handlePointerMove = useCallback(
+    (e: ReactPointerEvent<HTMLDivElement>) => {
+      if (e.pointerType !== 'mouse' || reducedMotion) return;
+
+      const rect = e.currentTarget.getBoundingClientRect();
+      const dx = e.clientX - (rect.left + rect.width / 2);
+      const dy = e.clientY - (rect.top + rect.height / 2);
+      magnet.x.set(clamp(dx * MAGNET_CONFIG.strength, -MAGNET_CONFIG.maxPull, MAGNET_CONFIG.maxPull));
+      magnet.y.set(clamp(dy * MAGNET_CONFIG.strength, -MAGNET_CONFIG.maxPull, MAGNET_CONFIG.maxPull));
+    },
+    [magnet, reducedMotion]
+  );
+
+  const baseDistortion = isMobile ? -120 : -160;
 
   return (
     <motion.div
-      className="absolute left-1/2 top-1/2 pointer-events-auto"
+      className="absolute left-1/2 top-1/2 pointer-events-auto rounded-full outline-none"
       style={{
         x,
         y,
@@ -865,38 +1062,64 @@ const GlassSurfaceOrb = ({
         scale,
         translateX: '-50%',
         translateY: '-50%',
-        contain: 'layout style paint',
+        contain: 'layout style',
       }}
+      role="img"
+      aria-labelledby={tooltipId}
+      aria-hidden={!revealed}
+      tabIndex={revealed ? 0 : -1}
       onMouseEnter={handleHover}
       onMouseLeave={handleLeave}
+      onPointerMove={handlePointerMove}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
     >
-      {/* Hover ring - skip on mobile */}
-      {!isMobile && (
+      {/* Hover / focus ring - skip hover on mobile, keep it for keyboard focus */}
+      {(!isMobile || isFocused) && (
         <motion.div
           className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full pointer-events-none"
           style={{
             width: orbSize + 14,
             height: orbSize + 14,
-            border: `1px solid ${config.color}`,
-            boxShadow: `0 0 16px ${config.color}28`,
+            border: `1px solid ${color}`,
+            boxShadow: `0 0 16px ${color}28`,
           }}
           initial={{ opacity: 0, scale: 0.92 }}
-          animate={{ opacity: isHovered ? 0.6 : 0, scale: isHovered ? 1 : 0.92 }}
+          animate={{ opacity: isActive ? 0.6 : 0, scale: isActive ? 1 : 0.92 }}
           transition={{ duration: 0.25 }}
         />
       )}
 
+      {/* Tooltip naming the company */}
+      <motion.div
+        id={tooltipId}
+        role="tooltip"
+        className="absolute left-1/2 -translate-x-1/2 px-2.5 py-1 rounded-full bg-black/70 border border-white/10
+                   text-xs font-medium text-white whitespace-nowrap pointer-events-none"
+        style={{ top: orbSize + 12 }}
+        initial={{ opacity: 0, y: -4 }}
+        animate={{ opacity: isActive ? 1 : 0, y: isActive ? 0 : -4 }}
+        transition={{ duration: 0.2 }}
+      >
+        {label}
+      </motion.div>
+
       {/* Glass bubble orb */}
-      <div className="relative cursor-pointer" style={{ width: orbSize, height: orbSize }}>
+      <motion.div
+        className="relative cursor-pointer"
+        style={{ width: orbSize, height: orbSize }}
+        animate={{ scale: isActive && !reducedMotion ? ACTIVE_GLASS.scale : 1 }}
+        transition={{ type: 'spring', ...(isMobile ? SPRING_CONFIG.mobile : SPRING_CONFIG.scale) }}
+      >
         <GlassSurface
           width={orbSize}
           height={orbSize}
           borderRadius={9999}
-          distortionScale={isMobile ? -120 : -160}
+          distortionScale={isActive ? baseDistortion * ACTIVE_GLASS.distortionMult : baseDistortion}
           redOffset={isMobile ? -1 : -2}
           greenOffset={isMobile ? 5 : 8}
           blueOffset={isMobile ? 12 : 18}
-          brightness={55}
+          brightness={isActive ? 55 + ACTIVE_GLASS.brightnessBoost : 55}
           opacity={0.9}
           blur={isMobile ? 8 : 10}
           displace={0.5}
@@ -904,6 +1127,7 @@ const GlassSurfaceOrb = ({
           saturation={1.15}
           borderWidth={0.07}
           mixBlendMode="screen"
+          forceSimple={simpleGlass}
         />
 
         {/* Prismatic edge ring */}
@@ -999,6 +1223,8 @@ const GlassSurfaceOrb = ({
 
         {/* Logo */}
         <div
+          role="img"
+          aria-label={label}
           className="absolute inset-0 flex items-center justify-center z-30"
           style={{
             filter: 'drop-shadow(0 2px 4px rgba(0, 0, 0, 0.35))',
@@ -1013,14 +1239,14 @@ const GlassSurfaceOrb = ({
           <motion.div
             className="absolute inset-0 rounded-full pointer-events-none z-20"
             style={{
-              background: `radial-gradient(circle at 50% 40%, ${config.color}22 0%, transparent 60%)`,
-              boxShadow: `0 0 24px ${config.color}15`,
+              background: `radial-gradient(circle at 50% 40%, ${color}22 0%, transparent 60%)`,
+              boxShadow: `0 0 24px ${color}15`,
             }}
-            animate={{ opacity: isHovered ? 1 : 0 }}
+            animate={{ opacity: isActive ? 1 : 0 }}
             transition={{ duration: 0.25 }}
           />
         )}
-      </div>
+      </motion.div>
     </motion.div>
   );
 };
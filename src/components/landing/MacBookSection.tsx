@@ -1,466 +1,87 @@
 'use client';
 
 import React, { useRef, useEffect, useState, Suspense, useCallback } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { useGLTF, Environment } from '@react-three/drei';
-import { VolumeX } from 'lucide-react';
+import { Canvas } from '@react-three/fiber';
+import { Captions, CaptionsOff, VolumeX } from 'lucide-react';
 import * as THREE from 'three';
+import { useDeviceCapabilities } from '@/lib/deviceCapabilities';
+import { useQualityMonitor, useQualityTier } from '@/lib/qualityTier';
+import type { VideoRendition } from '@/lib/videoRenditions';
+import { useGLSurface } from '@/lib/glBudget';
+import { useContextLoss } from '@/lib/webglContext';
+import { LoadingIndicator, MacModel, preloadVideo } from './scene/MacModel';
+import type { ScreenFit } from './scene/MacModel';
+import { ChapterCaptions } from './scene/ChapterCaptions';
+import type { VideoChapter } from './scene/ChapterCaptions';
+import { SceneLayers } from './scene/SceneLayers';
+import type { SceneLayerId } from './scene/SceneLayers';
+import { DEFAULT_SCROLL_LOCK_CONFIG, useScrollLock } from './scene/useScrollLock';
+import type { ScrollLockConfig } from './scene/useScrollLock';
+import { useScrollScrub } from './scene/useScrollScrub';
+import { MAC_MODEL, ProgressiveModel, preloadModel } from './modelAssets';
+import type { ModelAsset } from './modelAssets';
+import { MACBOOK_LIGHT_RIG, StudioEnvironment, StudioLightRig } from './StudioLighting';
+import type { LightRig } from './StudioLighting';
+import { SectionDotGrid } from './SectionDotGrid';
+import type { SectionDotGridConfig } from './SectionDotGrid';
+import { CaptionOverlay, useVideoCaptions } from './VideoCaptions';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // MACBOOK SECTION WITH ALCOVE-STYLE TEXT + SCROLL LOCKING
+// One scroll-scene engine: the phase machine lives in useScrollLock, the
+// visuals are composable layers, and variants are just prop configurations.
 // ═══════════════════════════════════════════════════════════════════════════
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Video preloading singleton
-// ─────────────────────────────────────────────────────────────────────────────
-let preloadedVideo: HTMLVideoElement | null = null;
-
-function preloadVideo(src: string): HTMLVideoElement {
-  if (preloadedVideo) return preloadedVideo;
-
-  const video = document.createElement('video');
-  video.src = src;
-  video.crossOrigin = 'anonymous';
-  video.loop = true;
-  video.muted = true;
-  video.playsInline = true;
-  video.preload = 'auto';
-  video.load();
-  preloadedVideo = video;
-
-  return video;
-}
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Types
-// ─────────────────────────────────────────────────────────────────────────────
-type Phase = 'locked' | 'opening' | 'open' | 'closing' | 'done';
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Constants (moved outside component for better performance)
-// ─────────────────────────────────────────────────────────────────────────────
-const MAX_LID_ANGLE = 0.92;
-const VIDEO_PLAY_THRESHOLD = 0.32;
-const OPEN_SCROLL_DISTANCE = 450;
-const CLOSE_SCROLL_DISTANCE = 220;
-const DEAD_ZONE = 110;
-const OPEN_HOLD_MS = 340;
-const BREATHING_ROOM = 520;
-const ENTER_TRIGGER_TOP = 0.3;
-const IN_VIEW_TOP = 0.55;
-const RELEASE_CHUNK_PX = 140;
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Utility
-// ─────────────────────────────────────────────────────────────────────────────
-const clamp01 = (x: number): number => Math.max(0, Math.min(1, x));
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Alcove-Style Hero Text
-// ─────────────────────────────────────────────────────────────────────────────
-interface HeroTextProps {
-  line1: string;
-  lidAngle: number;
-}
-
-function HeroText({ line1, lidAngle }: HeroTextProps) {
-  const opacity = Math.max(0, 1 - lidAngle * 2.5);
-  const translateY = -lidAngle * 50;
-
-  return (
-    <div
-      className="absolute inset-0 flex flex-col items-center pointer-events-none"
-      style={{
-        justifyContent: 'center',
-        paddingTop: '4vh',
-        opacity,
-        transform: `translateY(${translateY}px)`,
-        transition: 'opacity 0.08s ease-out, transform 0.08s ease-out',
-      }}
-    >
-      <h2
-        className="text-[6.5vw] font-black tracking-[-0.03em] whitespace-nowrap select-none leading-[1.1]"
-        style={{
-          background: `linear-gradient(
-            to bottom,
-            rgba(255, 255, 255, 0.18) 0%,
-            rgba(255, 255, 255, 0.14) 30%,
-            rgba(255, 255, 255, 0.08) 60%,
-            rgba(255, 255, 255, 0.02) 85%,
-            rgba(255, 255, 255, 0.00) 100%
-          )`,
-          WebkitBackgroundClip: 'text',
-          WebkitTextFillColor: 'transparent',
-          backgroundClip: 'text',
-          WebkitFontSmoothing: 'antialiased',
-        }}
-      >
-        {line1}
-      </h2>
-    </div>
-  );
-}
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Ambient Background Glow
-// ─────────────────────────────────────────────────────────────────────────────
-interface AmbientBackgroundProps {
-  intensity: number;
-}
-
-function AmbientBackground({ intensity }: AmbientBackgroundProps) {
-  const baseOpacity = 0.03;
-  const dynamicOpacity = baseOpacity + intensity * 0.08;
-
-  return (
-    <div className="absolute inset-0 pointer-events-none">
-      <div
-        className="absolute left-1/2 top-[45%] -translate-x-1/2 -translate-y-1/2"
-        style={{
-          width: '80vw',
-          height: '70vh',
-          background: `radial-gradient(ellipse 60% 50% at center,
-            rgba(255, 255, 255, ${dynamicOpacity * 1.5}) 0%,
-            rgba(255, 255, 255, ${dynamicOpacity}) 25%,
-            rgba(255, 255, 255, ${dynamicOpacity * 0.5}) 45%,
-            rgba(255, 255, 255, ${dynamicOpacity * 0.2}) 65%,
-            transparent 85%
-          )`,
-          filter: 'blur(80px)',
-        }}
-      />
-      <div
-        className="absolute left-1/2 top-[65%] -translate-x-1/2"
-        style={{
-          width: '100vw',
-          height: '20vh',
-          background: `radial-gradient(ellipse 80% 100% at center top,
-            rgba(255, 255, 255, ${dynamicOpacity * 0.8}) 0%,
-            rgba(255, 255, 255, ${dynamicOpacity * 0.3}) 40%,
-            transparent 70%
-          )`,
-          filter: 'blur(60px)',
-        }}
-      />
-    </div>
-  );
-}
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Under-Mac White Circular Light
-// ─────────────────────────────────────────────────────────────────────────────
-interface UnderMacLightProps {
-  intensity: number;
-}
-
-function UnderMacLight({ intensity }: UnderMacLightProps) {
-  const opacity = Math.max(0, Math.min(1, intensity)) * 0.55;
-  const scale = 0.85 + intensity * 0.25;
-
-  return (
-    <div className="absolute inset-0 pointer-events-none">
-      <div
-        className="absolute left-1/2 top-[78%] -translate-x-1/2 -translate-y-1/2"
-        style={{
-          width: `${58 * scale}vw`,
-          height: `${18 * scale}vh`,
-          opacity,
-          background: `radial-gradient(ellipse 60% 80% at center,
-            rgba(255,255,255,0.22) 0%,
-            rgba(255,255,255,0.12) 28%,
-            rgba(255,255,255,0.06) 48%,
-            rgba(255,255,255,0.03) 62%,
-            transparent 76%
-          )`,
-          filter: `blur(${55 + intensity * 35}px)`,
-        }}
-      />
-      <div
-        className="absolute left-1/2 top-[79%] -translate-x-1/2 -translate-y-1/2"
-        style={{
-          width: `${26 * scale}vw`,
-          height: `${7 * scale}vh`,
-          opacity: opacity * 0.9,
-          background: `radial-gradient(ellipse at center,
-            rgba(255,255,255,0.28) 0%,
-            rgba(255,255,255,0.10) 40%,
-            transparent 72%
-          )`,
-          filter: `blur(${28 + intensity * 18}px)`,
-        }}
-      />
-    </div>
-  );
-}
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Light Beam on Ground
-// ─────────────────────────────────────────────────────────────────────────────
-interface LightBeamProps {
-  intensity: number;
-  color?: string;
-}
-
-function LightBeam({ intensity, color = '#6366f1' }: LightBeamProps) {
-  const opacity = Math.max(0, intensity * 0.6);
-  const scale = 0.7 + intensity * 0.5;
-
-  return (
-    <div className="absolute bottom-[8%] left-1/2 -translate-x-1/2 pointer-events-none" style={{ opacity }}>
-      <div
-        style={{
-          width: `${50 * scale}vw`,
-          height: `${15 * scale}vh`,
-          background: `radial-gradient(ellipse 70% 100% at center,
-            ${color}20 0%,
-            ${color}10 30%,
-            ${color}05 50%,
-            transparent 70%
-          )`,
-          filter: `blur(${30 + intensity * 20}px)`,
-          transform: `translateX(-50%) scaleY(${0.5 + intensity * 0.3})`,
-        }}
-      />
-      <div
-        className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2"
-        style={{
-          width: `${25 * scale}vw`,
-          height: `${8 * scale}vh`,
-          background: `radial-gradient(ellipse at center,
-            ${color}25 0%,
-            ${color}10 40%,
-            transparent 70%
-          )`,
-          filter: `blur(${20 + intensity * 15}px)`,
-        }}
-      />
-    </div>
-  );
-}
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Screen Glow
-// ─────────────────────────────────────────────────────────────────────────────
-interface ScreenGlowProps {
-  intensity: number;
-  color?: string;
-}
+export { preloadVideo };
+export type { VideoChapter };
 
-function ScreenGlow({ intensity, color = '#4a9eff' }: ScreenGlowProps) {
-  const opacity = Math.max(0, (intensity - 0.2) * 1.25);
-  const scale = 0.8 + intensity * 0.3;
+/**
+ * 'lock' captures wheel / touch / keys and drives the lid from them;
+ * 'scrub' maps native scroll through a taller section onto the lid instead.
+ */
+export type MacBookSectionMode = 'lock' | 'scrub';
 
-  return (
-    <div className="absolute inset-0 pointer-events-none" style={{ opacity }}>
-      <div
-        className="absolute left-1/2 top-[35%] -translate-x-1/2 -translate-y-1/2"
-        style={{
-          width: `${40 * scale}vw`,
-          height: `${30 * scale}vh`,
-          background: `radial-gradient(ellipse at center,
-            ${color}12 0%,
-            ${color}06 40%,
-            transparent 70%
-          )`,
-          filter: `blur(${45 + intensity * 35}px)`,
-        }}
-      />
-      <div
-        className="absolute left-1/2 top-[40%] -translate-x-1/2 -translate-y-1/2"
-        style={{
-          width: `${65 * scale}vw`,
-          height: `${50 * scale}vh`,
-          background: `radial-gradient(ellipse at center,
-            ${color}06 0%,
-            ${color}02 50%,
-            transparent 75%
-          )`,
-          filter: `blur(${70 + intensity * 40}px)`,
-        }}
-      />
-    </div>
-  );
-}
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Three.js MacBook Model
-// ─────────────────────────────────────────────────────────────────────────────
-interface MacModelProps {
-  videoSrc?: string;
-  imageSrc?: string;
-  scale?: number;
-  lidAngle: number;
-  shouldPlay: boolean;
-  onVideoRef?: (video: HTMLVideoElement | null) => void;
-}
-
-function MacModel({ videoSrc, imageSrc, scale = 1, lidAngle, shouldPlay, onVideoRef }: MacModelProps) {
-  const gltf = useGLTF('/mac.glb');
-  const screenRef = useRef<THREE.Object3D | null>(null);
-  const matteRef = useRef<THREE.Mesh | null>(null);
-  const targetRotation = useRef(Math.PI);
-  const groupRef = useRef<THREE.Group>(null);
-  const videoRef = useRef<HTMLVideoElement | null>(null);
-  const videoTextureRef = useRef<THREE.VideoTexture | null>(null);
-
-  // Find screen and matte meshes
-  useEffect(() => {
-    if (!gltf.scene) return;
-
-    gltf.scene.traverse((child) => {
-      const name = child.name.toLowerCase();
-
-      if (name === 'screen' || name.includes('screen') || name.includes('lid')) {
-        screenRef.current = child;
-      }
-
-      if ((child as THREE.Mesh).isMesh) {
-        if (name === 'matte' || name.includes('matte')) {
-          matteRef.current = child as THREE.Mesh;
-        }
-      }
-    });
-
-    if (screenRef.current) {
-      screenRef.current.rotation.x = THREE.MathUtils.degToRad(180);
-    }
-  }, [gltf.scene]);
-
-  // Video texture setup
-useEffect(() => {
-  if (!videoSrc || !matteRef.current) return;
-
-  const video = preloadedVideo ?? preloadVideo(videoSrc);
-  videoRef.current = video;
-  onVideoRef?.(video);
-
-  const texture = new THREE.VideoTexture(video);
-  texture.minFilter = THREE.LinearFilter;
-  texture.magFilter = THREE.LinearFilter;
-  texture.colorSpace = THREE.SRGBColorSpace;
-  videoTextureRef.current = texture;
-
-  const mat = matteRef.current.material as THREE.MeshStandardMaterial;
-  mat.map = texture;
-  mat.metalness = 0;
-  mat.roughness = 1;
-  mat.emissive = new THREE.Color(0x000000);
-  mat.emissiveIntensity = 0;
-  mat.envMapIntensity = 0;
-  mat.needsUpdate = true;
-
-  // ─────────────────────────────────────────────────────────────────────────
-  // Aspect-ratio-preserving letterbox setup
-  // ─────────────────────────────────────────────────────────────────────────
-  const SCREEN_ASPECT = 16 / 10; // MacBook screen ~16:10
-
-  const applyLetterbox = () => {
-    const videoAspect = video.videoWidth / video.videoHeight;
-
-    if (videoAspect > SCREEN_ASPECT) {
-      // Video is wider → black bars top/bottom (letterbox)
-      const scale = SCREEN_ASPECT / videoAspect;
-      texture.repeat.set(1, scale);
-      texture.offset.set(0, (1 - scale) / 2);
-    } else {
-      // Video is taller → black bars left/right (pillarbox)
-      const scale = videoAspect / SCREEN_ASPECT;
-      texture.repeat.set(scale, 1);
-      texture.offset.set((1 - scale) / 2, 0);
-    }
-  };
-
-  // Apply once metadata is ready
-  if (video.readyState >= 1) {
-    applyLetterbox();
-  } else {
-    video.addEventListener('loadedmetadata', applyLetterbox, { once: true });
-  }
-
-  return () => {
-    video.removeEventListener('loadedmetadata', applyLetterbox);
-    texture.dispose();
-  };
-}, [videoSrc, gltf.scene, onVideoRef]);
-
-  // Image texture fallback
-  useEffect(() => {
-    if (videoSrc || !imageSrc || !matteRef.current) return;
-
-    const mat = matteRef.current.material as THREE.MeshStandardMaterial;
-    mat.metalness = 0;
-    mat.roughness = 1;
-    mat.envMapIntensity = 0;
-
-    new THREE.TextureLoader().load(imageSrc, (tex) => {
-      tex.colorSpace = THREE.SRGBColorSpace;
-      mat.map = tex;
-      mat.needsUpdate = true;
-    });
-  }, [imageSrc, videoSrc, gltf.scene]);
-
-  // Video play/pause control
-  useEffect(() => {
-    const video = videoRef.current;
-    if (!video) return;
-
-    if (shouldPlay) {
-      video.play().catch(() => { /* Autoplay blocked - user will tap */ });
-    } else {
-      video.pause();
-    }
-  }, [shouldPlay]);
-
-  // Update target rotation when lid angle changes
-  useEffect(() => {
-    targetRotation.current = THREE.MathUtils.degToRad(180 - lidAngle * 100);
-  }, [lidAngle]);
-
-  // Smooth animation frame
-  useFrame(() => {
-    if (screenRef.current) {
-      screenRef.current.rotation.x += (targetRotation.current - screenRef.current.rotation.x) * 0.1;
-    }
-    if (videoTextureRef.current) {
-      videoTextureRef.current.needsUpdate = true;
-    }
-  });
-
-  return (
-    <group ref={groupRef} position={[0, -5.5, 20]} scale={scale}>
-      <primitive object={gltf.scene} />
-    </group>
-  );
-}
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Loading indicator
-// ─────────────────────────────────────────────────────────────────────────────
-function LoadingIndicator() {
-  const ref = useRef<THREE.Mesh>(null);
-  useFrame((_, delta) => {
-    if (ref.current) ref.current.rotation.y += delta;
-  });
-  return (
-    <mesh ref={ref}>
-      <boxGeometry args={[1, 1, 1]} />
-      <meshStandardMaterial color="#222" wireframe />
-    </mesh>
-  );
-}
+const SECTION_HEIGHT: Record<MacBookSectionMode, string> = {
+  lock: 'min-h-[200vh]',
+  scrub: 'min-h-[400vh]',
+};
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Main Component Props
 // ─────────────────────────────────────────────────────────────────────────────
-interface MacBookSectionProps {
+export interface MacBookSectionProps {
   videoSrc?: string;
+  /** Renditions to pick from by screen size, connection and codec support (overrides videoSrc) */
+  videoRenditions?: VideoRendition[];
+  /** Poster for the screen: shown until the video plays and when it can't */
   imageSrc?: string;
   scale?: number;
   className?: string;
   children?: React.ReactNode;
   glowColor?: string;
   heroLine1?: string;
+  heroLine2?: string;
   showDebug?: boolean;
+  /** Visual layers rendered around the 3D canvas (default: all of them) */
+  layers?: SceneLayerId[];
+  /** WebVTT file for the screen video, drawn as an overlay under the laptop */
+  captionsSrc?: string;
+  /** Chapter manifest for the screen video; renders captions + seek dots */
+  chapters?: VideoChapter[];
+  /** GLB (optionally Draco / Meshopt / KTX2) plus an optional low-poly proxy */
+  model?: ModelAsset;
+  /** How the video fills the MacBook screen */
+  screenFit?: ScreenFit;
+  /** Key / fill / rim lights (rim and fill take their color from glowColor) */
+  lightRig?: LightRig;
+  /** Self-hosted HDR / EXR for reflections; omit to use the bundled studio HDRI */
+  environmentFiles?: string | string[];
+  /** How scrolling drives the lid (default: 'lock') */
+  mode?: MacBookSectionMode;
+  /** Overrides for the scroll-lock distances / thresholds */
+  scrollLock?: Partial<ScrollLockConfig>;
+  /** Interactive dot grid behind the scene; lit dots follow glowColor */
+  dotGrid?: SectionDotGridConfig;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -468,49 +89,77 @@ interface MacBookSectionProps {
 // ─────────────────────────────────────────────────────────────────────────────
 export function MacBookSection({
   videoSrc,
+  videoRenditions,
   imageSrc,
   scale = 1.5,
   className = '',
   children,
   glowColor = '#6366f1',
   heroLine1 = 'Talent Beyond Comparison.',
+  heroLine2,
   showDebug = false,
+  layers,
+  model = MAC_MODEL,
+  screenFit = 'letterbox',
+  captionsSrc,
+  chapters,
+  lightRig = MACBOOK_LIGHT_RIG,
+  environmentFiles,
+  mode = 'lock',
+  scrollLock,
+  dotGrid,
 }: MacBookSectionProps) {
   const sectionRef = useRef<HTMLDivElement>(null);
-
-  // Phase state
-  const [phase, setPhase] = useState<Phase>('locked');
-  const phaseRef = useRef<Phase>('locked');
-  
-  useEffect(() => {
-    phaseRef.current = phase;
-  }, [phase]);
-
-  // Animation state
-  const [openProgress, setOpenProgress] = useState(0);
-  const [lidAngle, setLidAngle] = useState(0);
+  const { tier, settings: quality } = useQualityTier();
+  const { saveData, prefersReducedMotion } = useDeviceCapabilities();
+  const [isInView, setIsInView] = useState(false);
   const [audioEnabled, setAudioEnabled] = useState(false);
-  const [holdActive, setHoldActive] = useState(false);
-
-  // Refs for mutable values
   const videoElementRef = useRef<HTMLVideoElement | null>(null);
-  const acc = useRef(0);
-  const openHoldUntilRef = useRef<number>(0);
-  const holdTimerRef = useRef<number | null>(null);
-  const overflowDownRef = useRef(0);
-  const doneLatchRef = useRef(false);
-  
-  // Ref for recursive function (fixes ESLint error)
-  const releaseOverflowFnRef = useRef<() => void>(() => {});
+  const controlsRef = useRef<HTMLDivElement>(null);
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [captionsOn, setCaptionsOn] = useState(true);
+  const { contextLost, restoreCount, bindCanvas } = useContextLoss();
+
+  // Phase machine + input capture + overflow release, or native scroll scrubbing
+  const locked = useScrollLock(sectionRef, scrollLock, mode === 'lock');
+  const scrubbed = useScrollScrub(sectionRef, scrollLock, mode === 'scrub');
+  const { phase, openProgress, lidAngle, holdActive, shouldPlay } = mode === 'lock' ? locked : scrubbed;
+  const maxLidAngle = scrollLock?.maxLidAngle ?? DEFAULT_SCROLL_LOCK_CONFIG.maxLidAngle;
+
+  const videoSource = videoRenditions?.length ? videoRenditions : videoSrc;
+  // Save-data and reduced-motion visitors get the poster only (the video when there is no imageSrc)
+  const stillOnly = Boolean(imageSrc) && (saveData || prefersReducedMotion);
 
   // Preload video
   useEffect(() => {
-    if (videoSrc) preloadVideo(videoSrc);
-  }, [videoSrc]);
+    if (videoSource && !stillOnly) preloadVideo(videoSource);
+  }, [videoSource, stillOnly]);
 
-  // Audio: click/tap to unmute
+  // In-view detection for the frame monitor
   useEffect(() => {
-    const handleClick = () => {
+    const el = sectionRef.current;
+    if (!el) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsInView(entry.isIntersecting),
+      { threshold: 0.1 }
+    );
+
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Measure real frame times while the MacBook scene is on screen
+  useQualityMonitor(isInView);
+
+  // Shared context budget: paused off screen, unmounted when evicted
+  const surface = useGLSurface(isInView);
+  const showPoster = contextLost || !surface.live;
+
+  // Audio: click/tap to unmute (anywhere but the on-screen controls)
+  useEffect(() => {
+    const handleClick = (e: Event) => {
+      if (e.target instanceof Node && controlsRef.current?.contains(e.target)) return;
       if (!audioEnabled && videoElementRef.current) {
         videoElementRef.current.muted = false;
         setAudioEnabled(true);
@@ -524,442 +173,121 @@ export function MacBookSection({
     };
   }, [audioEnabled]);
 
-  // Hold timer helpers
-  const clearHold = useCallback(() => {
-    if (holdTimerRef.current !== null) {
-      window.clearTimeout(holdTimerRef.current);
-      holdTimerRef.current = null;
-    }
-    setHoldActive(false);
-  }, []);
-
-  const beginHold = useCallback((ms: number) => {
-    setHoldActive(true);
-    if (holdTimerRef.current !== null) {
-      window.clearTimeout(holdTimerRef.current);
-    }
-    holdTimerRef.current = window.setTimeout(() => {
-      setHoldActive(false);
-      holdTimerRef.current = null;
-    }, ms);
-  }, []);
-
-  // Cleanup hold timer on unmount
-  useEffect(() => {
-    return () => {
-      if (holdTimerRef.current !== null) {
-        window.clearTimeout(holdTimerRef.current);
-      }
-    };
-  }, []);
-
-  // Check if in control zone
-  const isInControlZone = useCallback(() => {
-    const el = sectionRef.current;
-    if (!el) return false;
-    if (phaseRef.current === 'done') return false;
-
-    const rect = el.getBoundingClientRect();
-    const vh = window.innerHeight;
-    return rect.top <= vh * IN_VIEW_TOP && rect.top > -rect.height + vh;
-  }, []);
-
-  // Overflow release function (using ref pattern to avoid recursive useCallback issue)
-  useEffect(() => {
-    releaseOverflowFnRef.current = () => {
-      const amount = overflowDownRef.current;
-      if (amount <= 0) return;
-
-      const step = Math.min(amount, RELEASE_CHUNK_PX);
-      overflowDownRef.current = amount - step;
-
-      window.requestAnimationFrame(() => {
-        window.scrollBy({ top: step, left: 0, behavior: 'auto' });
-        if (overflowDownRef.current > 0) {
-          releaseOverflowFnRef.current();
-        }
-      });
-    };
-  }, []);
-
-  const releaseOverflowDown = useCallback(() => {
-    releaseOverflowFnRef.current();
+  const handleVideoRef = useCallback((video: HTMLVideoElement | null) => {
+    videoElementRef.current = video;
+    setVideoElement(video);
   }, []);
 
-  // Main scroll/touch handlers
-  useEffect(() => {
-    const el = sectionRef.current;
-    if (!el) return;
-
-    const now = () => performance.now();
-
-    const handleWheel = (e: WheelEvent) => {
-      if (!isInControlZone()) return;
-
-      const rect = el.getBoundingClientRect();
-      const vh = window.innerHeight;
-
-      // LOCKED: start only if entering and scrolling down
-      if (phaseRef.current === 'locked') {
-        if (!doneLatchRef.current && rect.top <= vh * ENTER_TRIGGER_TOP && e.deltaY > 0) {
-          e.preventDefault();
-          acc.current = 0;
-          overflowDownRef.current = 0;
-          clearHold();
-          setPhase('opening');
-        }
-        return;
+  // Chapter navigation seeks the VideoTexture's underlying video
+  const handleSeek = useCallback(
+    (time: number) => {
+      const video = videoElementRef.current;
+      if (!video) return;
+      video.currentTime = time;
+      if (shouldPlay) {
+        video.play().catch(() => { /* Autoplay blocked - user will tap */ });
       }
+    },
+    [shouldPlay]
+  );
 
-      // OPENING
-      if (phaseRef.current === 'opening') {
-        e.preventDefault();
-
-        const next = acc.current + e.deltaY;
-        const cap = OPEN_SCROLL_DISTANCE + DEAD_ZONE;
-
-        if (next > cap) {
-          overflowDownRef.current += next - cap;
-          acc.current = cap;
-        } else {
-          acc.current = Math.max(0, next);
-        }
-
-        const effective = Math.max(0, acc.current - DEAD_ZONE);
-        const p = clamp01(effective / OPEN_SCROLL_DISTANCE);
-
-        setOpenProgress(p);
-        setLidAngle(p * MAX_LID_ANGLE);
-
-        if (p >= 1) {
-          setPhase('open');
-          setOpenProgress(1);
-          setLidAngle(MAX_LID_ANGLE);
-          acc.current = 0;
-          openHoldUntilRef.current = now() + OPEN_HOLD_MS;
-          beginHold(OPEN_HOLD_MS);
-        }
-
-        if (acc.current <= 0 && e.deltaY < 0) {
-          setPhase('locked');
-          setOpenProgress(0);
-          setLidAngle(0);
-          acc.current = 0;
-          overflowDownRef.current = 0;
-          clearHold();
-        }
-        return;
-      }
-
-      // OPEN
-      if (phaseRef.current === 'open') {
-        e.preventDefault();
-
-        const stillHolding = now() < openHoldUntilRef.current;
-
-        if (e.deltaY > 0) {
-          if (stillHolding) {
-            overflowDownRef.current += e.deltaY;
-            return;
-          }
-
-          const add = e.deltaY + overflowDownRef.current;
-          overflowDownRef.current = 0;
-          acc.current += add;
-
-          if (acc.current > BREATHING_ROOM) {
-            setPhase('closing');
-            acc.current = 0;
-            clearHold();
-          }
-        } else {
-          acc.current += e.deltaY;
-          if (acc.current < -60) {
-            setPhase('opening');
-            acc.current = OPEN_SCROLL_DISTANCE + DEAD_ZONE;
-          }
-        }
-        return;
-      }
-
-      // CLOSING
-      if (phaseRef.current === 'closing') {
-        e.preventDefault();
-
-        if (e.deltaY > 0) {
-          const next = acc.current + e.deltaY;
-          const cap = CLOSE_SCROLL_DISTANCE;
-
-          if (next > cap) {
-            overflowDownRef.current += next - cap;
-            acc.current = cap;
-          } else {
-            acc.current = Math.max(0, next);
-          }
-
-          const p = clamp01(acc.current / CLOSE_SCROLL_DISTANCE);
-          setLidAngle(MAX_LID_ANGLE * (1 - p));
-
-          if (p >= 1) {
-            setPhase('done');
-            setOpenProgress(0);
-            setLidAngle(0);
-            acc.current = 0;
-            clearHold();
-            doneLatchRef.current = true;
-            releaseOverflowDown();
-          }
-        } else {
-          acc.current += e.deltaY;
-          if (acc.current < -40) {
-            setPhase('open');
-            setOpenProgress(1);
-            setLidAngle(MAX_LID_ANGLE);
-            acc.current = 0;
-            openHoldUntilRef.current = now() + Math.round(OPEN_HOLD_MS * 0.6);
-            beginHold(Math.round(OPEN_HOLD_MS * 0.6));
-          }
-        }
-        return;
-      }
-    };
-
-    // Touch support
-    let touchStartY = 0;
-
-    const handleTouchStart = (e: TouchEvent) => {
-      touchStartY = e.touches[0].clientY;
-    };
-
-    const handleTouchMove = (e: TouchEvent) => {
-      if (!isInControlZone()) return;
-      if (phaseRef.current === 'done') return;
-
-      const currentY = e.touches[0].clientY;
-      const deltaY = (touchStartY - currentY) * 1.25;
-      touchStartY = currentY;
-
-      const rect = el.getBoundingClientRect();
-      const vh = window.innerHeight;
-      const nowT = () => performance.now();
-
-      if (phaseRef.current === 'locked') {
-        if (!doneLatchRef.current && rect.top <= vh * ENTER_TRIGGER_TOP && deltaY > 0) {
-          e.preventDefault();
-          acc.current = 0;
-          overflowDownRef.current = 0;
-          clearHold();
-          setPhase('opening');
-        }
-        return;
-      }
-
-      if (phaseRef.current === 'opening') {
-        e.preventDefault();
-
-        const next = acc.current + deltaY;
-        const cap = OPEN_SCROLL_DISTANCE + DEAD_ZONE;
-
-        if (next > cap) {
-          overflowDownRef.current += next - cap;
-          acc.current = cap;
-        } else {
-          acc.current = Math.max(0, next);
-        }
-
-        const effective = Math.max(0, acc.current - DEAD_ZONE);
-        const p = clamp01(effective / OPEN_SCROLL_DISTANCE);
-
-        setOpenProgress(p);
-        setLidAngle(p * MAX_LID_ANGLE);
-
-        if (p >= 1) {
-          setPhase('open');
-          setOpenProgress(1);
-          setLidAngle(MAX_LID_ANGLE);
-          acc.current = 0;
-          openHoldUntilRef.current = nowT() + OPEN_HOLD_MS;
-          beginHold(OPEN_HOLD_MS);
-        }
-
-        if (acc.current <= 0 && deltaY < 0) {
-          setPhase('locked');
-          setOpenProgress(0);
-          setLidAngle(0);
-          acc.current = 0;
-          overflowDownRef.current = 0;
-          clearHold();
-        }
-        return;
-      }
-
-      if (phaseRef.current === 'open') {
-        e.preventDefault();
-        const stillHolding = nowT() < openHoldUntilRef.current;
-
-        if (deltaY > 0) {
-          if (stillHolding) {
-            overflowDownRef.current += deltaY;
-            return;
-          }
-
-          const add = deltaY + overflowDownRef.current;
-          overflowDownRef.current = 0;
-          acc.current += add;
-
-          if (acc.current > BREATHING_ROOM * 0.8) {
-            setPhase('closing');
-            acc.current = 0;
-            clearHold();
-          }
-        } else {
-          acc.current += deltaY;
-          if (acc.current < -55) {
-            setPhase('opening');
-            acc.current = OPEN_SCROLL_DISTANCE + DEAD_ZONE;
-          }
-        }
-        return;
-      }
-
-      if (phaseRef.current === 'closing') {
-        e.preventDefault();
-
-        const next = acc.current + deltaY;
-        const cap = CLOSE_SCROLL_DISTANCE;
-
-        if (next > cap) {
-          overflowDownRef.current += next - cap;
-          acc.current = cap;
-        } else {
-          acc.current = Math.max(0, next);
-        }
-
-        const p = clamp01(acc.current / CLOSE_SCROLL_DISTANCE);
-        setLidAngle(MAX_LID_ANGLE * (1 - p));
-
-        if (p >= 1) {
-          setPhase('done');
-          setOpenProgress(0);
-          setLidAngle(0);
-          acc.current = 0;
-          clearHold();
-          doneLatchRef.current = true;
-          releaseOverflowDown();
-        }
-        return;
-      }
-    };
-
-    window.addEventListener('wheel', handleWheel, { passive: false });
-    window.addEventListener('touchstart', handleTouchStart, { passive: true });
-    window.addEventListener('touchmove', handleTouchMove, { passive: false });
-
-    return () => {
-      window.removeEventListener('wheel', handleWheel);
-      window.removeEventListener('touchstart', handleTouchStart);
-      window.removeEventListener('touchmove', handleTouchMove);
-    };
-  }, [beginHold, clearHold, isInControlZone, releaseOverflowDown]);
-
-  // Reset when scrolled far above section
-  useEffect(() => {
-    const handleScroll = () => {
-      const el = sectionRef.current;
-      if (!el) return;
-
-      const rect = el.getBoundingClientRect();
-      const vh = window.innerHeight;
-      const farAbove = rect.top > vh * 0.95;
-
-      if (farAbove) {
-        if (phaseRef.current !== 'locked') {
-          setPhase('locked');
-          setOpenProgress(0);
-          setLidAngle(0);
-          acc.current = 0;
-          overflowDownRef.current = 0;
-          openHoldUntilRef.current = 0;
-          clearHold();
-        }
-        doneLatchRef.current = false;
-      }
-    };
-
-    window.addEventListener('scroll', handleScroll, { passive: true });
-    return () => window.removeEventListener('scroll', handleScroll);
-  }, [clearHold]);
-
-  const shouldPlay = lidAngle >= VIDEO_PLAY_THRESHOLD;
+  const glowIntensity = lidAngle / maxLidAngle;
+  const captions = useVideoCaptions(videoElement, captionsSrc, captionsOn);
 
-  const handleVideoRef = useCallback((video: HTMLVideoElement | null) => {
-    videoElementRef.current = video;
+  const handleToggleCaptions = useCallback(() => {
+    setCaptionsOn((on) => !on);
   }, []);
 
-  const glowIntensity = lidAngle / MAX_LID_ANGLE;
-
   return (
-    <section ref={sectionRef} className={`relative min-h-[200vh] bg-[#050508] overflow-hidden ${className}`}>
+    <section ref={sectionRef} className={`relative ${SECTION_HEIGHT[mode]} bg-[#050508] ${mode === 'lock' ? 'overflow-hidden' : ''} ${className}`}>
       <div className="sticky top-0 h-screen w-full">
-        {/* Layer 0: Ambient Background */}
-        <div className="absolute inset-0 z-0">
-          <AmbientBackground intensity={glowIntensity} />
-        </div>
-
-        {/* Layer 1: Under-Mac Light */}
-        <div className="absolute inset-0 z-3 pointer-events-none">
-          <UnderMacLight intensity={glowIntensity} />
-        </div>
-
-        {/* Layer 2: Hero Text */}
-        <div className="absolute inset-0 z-5 pointer-events-none">
-          <HeroText line1={heroLine1} lidAngle={lidAngle} />
-        </div>
-
-        {/* Layer 3: Screen Glow */}
-        <div className="absolute inset-0 z-10">
-          <ScreenGlow intensity={glowIntensity} color={glowColor} />
-        </div>
-
-        {/* Layer 4: Light Beam */}
-        <div className="absolute inset-0 z-15 pointer-events-none">
-          <LightBeam intensity={glowIntensity} color={glowColor} />
-        </div>
+        {/* Back layer: interactive dot grid (viewport-sized, under the ambient glow) */}
+        <SectionDotGrid config={dotGrid} glowColor={glowColor} />
+
+        {/* Layers 0–4: ambient, under-Mac light, hero text, screen glow, light beam */}
+        <SceneLayers
+          layers={layers}
+          intensity={glowIntensity}
+          lidAngle={lidAngle}
+          glowColor={glowColor}
+          heroLine1={heroLine1}
+          heroLine2={heroLine2}
+        />
 
         {/* Layer 5: 3D Canvas */}
         <div className="absolute inset-0 z-20">
-          <Canvas
-            camera={{ fov: 15, position: [0, -5, 220] }}
-            gl={{
-              antialias: true,
-              alpha: true,
-              powerPreference: 'high-performance',
-              toneMapping: THREE.NoToneMapping,
-            }}
-            dpr={[1, 2]}
-            onCreated={({ gl }) => {
-              gl.setClearColor(0x000000, 0);
-              gl.outputColorSpace = THREE.SRGBColorSpace;
-            }}
-          >
-            <ambientLight intensity={0.4} />
-            <directionalLight position={[10, 10, 5]} intensity={1.0} />
-            <directionalLight position={[-5, 5, -5]} intensity={0.3} />
-
-            <Suspense fallback={<LoadingIndicator />}>
-              <Environment preset="studio" />
-              <MacModel
-                videoSrc={videoSrc}
-                imageSrc={imageSrc}
-                scale={scale}
-                lidAngle={lidAngle}
-                shouldPlay={shouldPlay}
-                onVideoRef={handleVideoRef}
+          {surface.live && (
+            <Canvas
+              frameloop={surface.paused ? 'never' : 'always'}
+              camera={{ fov: 15, position: [0, -5, 220] }}
+              gl={{
+                antialias: true,
+                alpha: true,
+                powerPreference: 'high-performance',
+                toneMapping: THREE.NoToneMapping,
+              }}
+              dpr={quality.canvasDpr}
+              onCreated={({ gl }) => {
+                gl.setClearColor(0x000000, 0);
+                gl.outputColorSpace = THREE.SRGBColorSpace;
+                bindCanvas(gl.domElement);
+              }}
+            >
+              <StudioLightRig rig={lightRig} glowColor={glowColor} />
+
+              {/* Remounted after a context restore: env map, poster and video texture rebuild */}
+              <Suspense key={restoreCount} fallback={<LoadingIndicator />}>
+                <StudioEnvironment
+                  glowColor={glowColor}
+                  environmentFiles={environmentFiles}
+                  intensity={lightRig.environmentIntensity}
+                />
+                <ProgressiveModel asset={model} fallback={<LoadingIndicator />}>
+                  {(modelSrc) => (
+                    <MacModel
+                      modelSrc={modelSrc}
+                      ktx2={model.ktx2}
+                      videoSrc={videoSource}
+                      imageSrc={imageSrc}
+                      scale={scale}
+                      lidAngle={lidAngle}
+                      shouldPlay={shouldPlay}
+                      screenFit={screenFit}
+                      stillOnly={stillOnly}
+                      onVideoRef={handleVideoRef}
+                    />
+                  )}
+                </ProgressiveModel>
+              </Suspense>
+            </Canvas>
+          )}
+
+          {/* Context lost or evicted by the budget: poster until the canvas is back */}
+          {showPoster && imageSrc && (
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <div
+                role="img"
+                aria-label="Product demo"
+                className="w-[min(60vw,900px)] aspect-[16/10] rounded-xl bg-black bg-contain bg-center bg-no-repeat"
+                style={{ backgroundImage: `url(${imageSrc})` }}
               />
-            </Suspense>
-          </Canvas>
+            </div>
+          )}
         </div>
 
+        {/* Layer 6: Chapter captions */}
+        {chapters && chapters.length > 0 && (
+          <div className="absolute inset-0 z-30 pointer-events-none">
+            <ChapterCaptions
+              chapters={chapters}
+              video={videoElement}
+              visibility={phase === 'open' ? 1 : Math.max(0, (glowIntensity - 0.6) * 2.5)}
+              onSeek={handleSeek}
+              accentColor={glowColor}
+            />
+          </div>
+        )}
+
         {/* Optional children */}
         {children && (
           <div className="absolute inset-0 z-40 flex items-start justify-center pt-20 pointer-events-none">
@@ -967,13 +295,37 @@ export function MacBookSection({
           </div>
         )}
 
-        {/* Audio indicator */}
-        {!audioEnabled && (
-          <div className="absolute bottom-6 right-6 z-50 pointer-events-none">
-            <div className="flex items-center gap-1.5 px-2.5 py-1.5 bg-white/5 backdrop-blur-sm rounded-full text-white/40 text-xs">
-              <VolumeX size={14} strokeWidth={1.5} />
-              <span>tap for sound</span>
-            </div>
+        {/* Captions */}
+        {captions.available && shouldPlay && (
+          <CaptionOverlay text={captions.text} className="absolute inset-x-0 bottom-[12%] z-30" />
+        )}
+
+        {/* Audio indicator + CC toggle */}
+        {((!audioEnabled && !stillOnly) || captions.available) && (
+          <div ref={controlsRef} className="absolute bottom-6 right-6 z-50 flex items-center gap-2 pointer-events-none">
+            {captions.available && (
+              <button
+                type="button"
+                onClick={handleToggleCaptions}
+                aria-pressed={captionsOn}
+                aria-label={captionsOn ? 'Hide captions' : 'Show captions'}
+                className="pointer-events-auto flex items-center gap-1.5 px-2.5 py-1.5 bg-white/5 hover:bg-white/10
+                           backdrop-blur-sm rounded-full text-white/40 hover:text-white/70 text-xs transition-colors"
+              >
+                {captionsOn ? (
+                  <Captions size={14} strokeWidth={1.5} />
+                ) : (
+                  <CaptionsOff size={14} strokeWidth={1.5} />
+                )}
+                <span>CC</span>
+              </button>
+            )}
+            {!audioEnabled && !stillOnly && (
+              <div className="flex items-center gap-1.5 px-2.5 py-1.5 bg-white/5 backdrop-blur-sm rounded-full text-white/40 text-xs">
+                <VolumeX size={14} strokeWidth={1.5} />
+                <span>tap for sound</span>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -982,11 +334,12 @@ export function MacBookSection({
       {showDebug && (
         <div className="fixed bottom-4 left-4 bg-black/90 text-green-400 text-xs px-4 py-2 rounded-lg font-mono z-50 space-y-1">
           <div>
-            phase: <span className="text-yellow-400">{phase}</span>
+            phase: <span className="text-yellow-400">{phase}</span> ({mode})
           </div>
-          <div>lid: {Math.round((lidAngle / MAX_LID_ANGLE) * 100)}%</div>
+          <div>lid: {Math.round((lidAngle / maxLidAngle) * 100)}%</div>
           <div>progress: {Math.round(openProgress * 100)}%</div>
           <div>{shouldPlay ? '▶️ playing' : '⏸️ paused'}</div>
+          <div>quality: {tier}</div>
           <div>audio: {audioEnabled ? '🔊 on' : '🔇 muted'}</div>
           {phase === 'open' && holdActive && <div className="text-cyan-400">hold active</div>}
         </div>
@@ -995,4 +348,7 @@ export function MacBookSection({
   );
 }
 
+// Preload the GLB
+preloadModel(MAC_MODEL);
+
 export default MacBookSection;
\ No newline at end of file
@@ -2,10 +2,22 @@
 
 import React, { useRef, useEffect, useState, Suspense, useCallback } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { useGLTF, Environment } from '@react-three/drei';
-import { Maximize2, RotateCcw, Play, Volume2, VolumeX } from 'lucide-react';
+import { Maximize2, RotateCcw, Play, Volume2, VolumeX, Captions, CaptionsOff } from 'lucide-react';
 import * as THREE from 'three';
 import { motion, AnimatePresence } from 'framer-motion';
+import { assignVideoSource, estimateTargetWidth, videoSourceKey } from '@/lib/videoRenditions';
+import type { VideoRendition, VideoSource } from '@/lib/videoRenditions';
+import { useDeviceCapabilities } from '@/lib/deviceCapabilities';
+import { useGLSurface } from '@/lib/glBudget';
+import { useContextLoss } from '@/lib/webglContext';
+import { CaptionOverlay, useVideoCaptions } from './VideoCaptions';
+import { IPHONE_MODEL, LoadingProgress, ProgressiveModel, preloadModel, useModelGLTF } from './modelAssets';
+import type { ModelAsset } from './modelAssets';
+import { useScreenPoster } from './screenPoster';
+import { SectionDotGrid } from './SectionDotGrid';
+import type { SectionDotGridConfig } from './SectionDotGrid';
+import { IPHONE_LIGHT_RIG, StudioEnvironment, StudioLightRig } from './StudioLighting';
+import type { LightRig } from './StudioLighting';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // MOBILE DEVICE SECTION — iPhone 3D Model with Orientation Detection
@@ -87,22 +99,29 @@ function useOrientation(): OrientationState {
 // Video Preloading
 // ─────────────────────────────────────────────────────────────────────────────
 let preloadedMobileVideo: HTMLVideoElement | null = null;
+let preloadedMobileKey: string | null = null;
 
-function preloadMobileVideo(src: string): HTMLVideoElement {
-  if (preloadedMobileVideo && preloadedMobileVideo.src.includes(src)) {
+// Share of the viewport width the iPhone screen covers in landscape
+const SCREEN_VIEWPORT_FRACTION = 0.8;
+
+export function preloadMobileVideo(source: VideoSource): HTMLVideoElement {
+  const key = videoSourceKey(source);
+  if (preloadedMobileVideo && preloadedMobileKey === key) {
     return preloadedMobileVideo;
   }
 
   const video = document.createElement('video');
-  video.src = src;
   video.crossOrigin = 'anonymous';
   video.loop = true;
   video.muted = true;
   video.playsInline = true;
   video.preload = 'auto';
   video.setAttribute('webkit-playsinline', 'true');
-  video.load();
+  assignVideoSource(video, source, {
+    targetWidth: estimateTargetWidth(SCREEN_VIEWPORT_FRACTION),
+  }).catch(() => { /* Selection failed - error handlers on the element take over */ });
   preloadedMobileVideo = video;
+  preloadedMobileKey = key;
 
   return video;
 }
@@ -204,6 +223,9 @@ interface VideoControlsProps {
   onFullscreen: () => void;
   onToggleMute: () => void;
   autoplayFailed: boolean;
+  captionsAvailable: boolean;
+  captionsOn: boolean;
+  onToggleCaptions: () => void;
 }
 
 function VideoControls({
@@ -213,6 +235,9 @@ function VideoControls({
   onFullscreen,
   onToggleMute,
   autoplayFailed,
+  captionsAvailable,
+  captionsOn,
+  onToggleCaptions,
 }: VideoControlsProps) {
   return (
     <motion.div
@@ -252,6 +277,25 @@ function VideoControls({
         )}
       </motion.button>
 
+      {/* Captions toggle */}
+      {captionsAvailable && (
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={onToggleCaptions}
+          className="p-2.5 bg-white/10 hover:bg-white/15 backdrop-blur-md rounded-full 
+                     border border-white/10 transition-colors"
+          title={captionsOn ? 'Hide captions' : 'Show captions'}
+          aria-pressed={captionsOn}
+        >
+          {captionsOn ? (
+            <Captions className="w-4 h-4 text-white" />
+          ) : (
+            <CaptionsOff className="w-4 h-4 text-white/70" />
+          )}
+        </motion.button>
+      )}
+
       {/* Fullscreen button */}
       <motion.button
         whileHover={{ scale: 1.05 }}
@@ -271,17 +315,27 @@ function VideoControls({
 // iPhone 3D Model Component
 // ─────────────────────────────────────────────────────────────────────────────
 interface IPhoneModelProps {
-  videoSrc: string;
+  /** GLB to render (the full model, or its low-poly proxy) */
+  modelSrc: string;
+  /** The GLB uses KTX2 textures */
+  ktx2?: boolean;
+  videoSrc: VideoSource;
+  /** Poster shown until the video plays, and instead of it when it can't */
+  imageSrc?: string;
+  /** Never load the video (save-data / reduced motion); the poster stays up */
+  stillOnly: boolean;
   isLandscape: boolean;
   onVideoRef: (video: HTMLVideoElement | null) => void;
 }
 
-function IPhoneModel({ videoSrc, isLandscape, onVideoRef }: IPhoneModelProps) {
-  const gltf = useGLTF('/iphone.glb');
+function IPhoneModel({ modelSrc, ktx2, videoSrc, imageSrc, stillOnly, isLandscape, onVideoRef }: IPhoneModelProps) {
+  const gltf = useModelGLTF(modelSrc, ktx2);
   const groupRef = useRef<THREE.Group>(null);
   const screenRef = useRef<THREE.Mesh | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const videoTextureRef = useRef<THREE.VideoTexture | null>(null);
+  const [hasFrame, setHasFrame] = useState(false);
+  const [videoFailed, setVideoFailed] = useState(false);
   const { viewport } = useThree();
 
   // Find screen mesh and set up materials
@@ -363,16 +417,34 @@ function IPhoneModel({ videoSrc, isLandscape, onVideoRef }: IPhoneModelProps) {
     }
   }, [gltf.scene]);
 
+  // Keyed by content, so an inline renditions array doesn't rebuild the texture
+  const videoKey = videoSrc ? videoSourceKey(videoSrc) : null;
+
+  // Frame / failure flags describe one source: start over when it changes
+  const [frameKey, setFrameKey] = useState(videoKey);
+  if (frameKey !== videoKey) {
+    setFrameKey(videoKey);
+    setHasFrame(false);
+    setVideoFailed(false);
+  }
+
+  const videoSrcRef = useRef(videoSrc);
+  useEffect(() => {
+    videoSrcRef.current = videoSrc;
+  }, [videoSrc]);
+
   // Setup video texture
   useEffect(() => {
-    if (!videoSrc || !screenRef.current) {
-      console.log('[iPhone] Cannot setup video:', { videoSrc: !!videoSrc, screen: !!screenRef.current });
+    const source = videoSrcRef.current;
+    if (stillOnly) return;
+    if (!videoKey || !source || !screenRef.current) {
+      console.log('[iPhone] Cannot setup video:', { videoSrc: !!source, screen: !!screenRef.current });
       return;
     }
 
     console.log('[iPhone] Setting up video texture');
 
-    const video = preloadedMobileVideo ?? preloadMobileVideo(videoSrc);
+    const video = preloadMobileVideo(source);
     videoRef.current = video;
     onVideoRef(video);
 
@@ -395,10 +467,31 @@ function IPhoneModel({ videoSrc, isLandscape, onVideoRef }: IPhoneModelProps) {
       mat.needsUpdate = true;
     }
 
+    // Poster → video crossfade once real frames are playing
+    const markPlaying = () => {
+      if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) setHasFrame(true);
+    };
+    const markFailed = () => setVideoFailed(true);
+
+    if (video.error) markFailed();
+    else if (!video.paused) markPlaying();
+
+    video.addEventListener('playing', markPlaying);
+    video.addEventListener('error', markFailed);
+
     return () => {
+      video.removeEventListener('playing', markPlaying);
+      video.removeEventListener('error', markFailed);
       texture.dispose();
     };
-  }, [videoSrc, gltf.scene, onVideoRef]);
+  }, [videoKey, stillOnly, gltf.scene, onVideoRef]);
+
+  // Poster until the video plays; permanently when there is no usable video
+  useScreenPoster(screenRef, {
+    src: imageSrc,
+    visible: stillOnly || videoFailed || !hasFrame,
+    scene: gltf.scene,
+  });
 
   // Update texture every frame
   useFrame(() => {
@@ -487,10 +580,13 @@ function LoadingIndicator() {
   });
 
   return (
-    <mesh ref={meshRef}>
-      <boxGeometry args={[0.5, 1, 0.1]} />
-      <meshStandardMaterial color="#333" wireframe />
-    </mesh>
+    <>
+      <mesh ref={meshRef}>
+        <boxGeometry args={[0.5, 1, 0.1]} />
+        <meshStandardMaterial color="#333" wireframe />
+      </mesh>
+      <LoadingProgress />
+    </>
   );
 }
 
@@ -499,8 +595,22 @@ function LoadingIndicator() {
 // ─────────────────────────────────────────────────────────────────────────────
 interface MobileDeviceSectionProps {
   videoSrc?: string;
+  /** Renditions to pick from by screen size, connection and codec support (overrides videoSrc) */
+  videoRenditions?: VideoRendition[];
+  /** Poster for the screen: shown until the video plays and when it can't */
+  imageSrc?: string;
+  /** WebVTT captions for the demo video */
+  captionsSrc?: string;
   className?: string;
   glowColor?: string;
+  /** GLB (optionally Draco / Meshopt / KTX2) plus an optional low-poly proxy */
+  model?: ModelAsset;
+  /** Key / fill / rim lights (rim and fill take their color from glowColor) */
+  lightRig?: LightRig;
+  /** Self-hosted HDR / EXR for reflections; omit to use the bundled studio HDRI */
+  environmentFiles?: string | string[];
+  /** Interactive dot grid behind the phone; lit dots follow glowColor */
+  dotGrid?: SectionDotGridConfig;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -508,8 +618,15 @@ interface MobileDeviceSectionProps {
 // ─────────────────────────────────────────────────────────────────────────────
 export function MobileDeviceSection({
   videoSrc = '/demo-video.mp4',
+  videoRenditions,
+  imageSrc,
+  captionsSrc,
   className = '',
   glowColor = '#6366f1',
+  model = IPHONE_MODEL,
+  lightRig = IPHONE_LIGHT_RIG,
+  environmentFiles,
+  dotGrid,
 }: MobileDeviceSectionProps) {
   const sectionRef = useRef<HTMLDivElement>(null);
   const videoElementRef = useRef<HTMLVideoElement | null>(null);
@@ -523,16 +640,29 @@ export function MobileDeviceSection({
   const [autoplayFailed, setAutoplayFailed] = useState(false);
   const [skippedRotation, setSkippedRotation] = useState(false);
   const [isInView, setIsInView] = useState(false);
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [captionsOn, setCaptionsOn] = useState(true);
+  const { contextLost, restoreCount, bindCanvas } = useContextLoss();
+  // Shared context budget: paused off screen, unmounted when evicted
+  const surface = useGLSurface(isInView);
+  const showPoster = contextLost || !surface.live;
+
+  const captions = useVideoCaptions(videoElement, captionsSrc, captionsOn);
 
   // Check if we're on client (safe for SSR)
   const isClient = typeof window !== 'undefined';
 
+  const videoSource = videoRenditions?.length ? videoRenditions : videoSrc;
+  // Save-data and reduced-motion visitors get the poster only (the video when there is none)
+  const { saveData, prefersReducedMotion } = useDeviceCapabilities();
+  const stillOnly = Boolean(imageSrc) && (saveData || prefersReducedMotion);
+
   // Preload video
   useEffect(() => {
-    if (videoSrc) {
-      preloadMobileVideo(videoSrc);
+    if (videoSource && !stillOnly) {
+      preloadMobileVideo(videoSource);
     }
-  }, [videoSrc]);
+  }, [videoSource, stillOnly]);
 
   // Intersection observer for in-view detection
   useEffect(() => {
@@ -594,6 +724,7 @@ export function MobileDeviceSection({
   // Handle video ref from 3D model
   const handleVideoRef = useCallback((video: HTMLVideoElement | null) => {
     videoElementRef.current = video;
+    setVideoElement(video);
   }, []);
 
   // Play button handler
@@ -619,14 +750,28 @@ export function MobileDeviceSection({
     let fsVideo = fullscreenVideoRef.current;
     if (!fsVideo) {
       fsVideo = document.createElement('video');
-      fsVideo.src = videoSrc;
+      // Same rendition the texture picked
+      fsVideo.src = video.currentSrc || video.src;
       fsVideo.loop = true;
       fsVideo.playsInline = true;
       fsVideo.controls = true;
       fsVideo.style.cssText = 'position:fixed;inset:0;width:100%;height:100%;z-index:9999;background:#000;object-fit:contain;';
+
+      // The fullscreen player is a real <video>, so native subtitles work here
+      if (captionsSrc) {
+        const track = document.createElement('track');
+        track.kind = 'subtitles';
+        track.src = captionsSrc;
+        track.srclang = 'en';
+        track.label = 'English';
+        fsVideo.appendChild(track);
+      }
       fullscreenVideoRef.current = fsVideo;
     }
 
+    const fsTrack = fsVideo.textTracks[0];
+    if (fsTrack) fsTrack.mode = captionsOn ? 'showing' : 'hidden';
+
     fsVideo.currentTime = video.currentTime;
     fsVideo.muted = isMuted;
     document.body.appendChild(fsVideo);
@@ -673,7 +818,7 @@ export function MobileDeviceSection({
         }
       }
     }, { once: true });
-  }, [videoSrc, isMuted]);
+  }, [captionsSrc, captionsOn, isMuted]);
 
   // Toggle mute
   const handleToggleMute = useCallback(() => {
@@ -684,6 +829,11 @@ export function MobileDeviceSection({
     }
   }, []);
 
+  // Toggle captions
+  const handleToggleCaptions = useCallback(() => {
+    setCaptionsOn((on) => !on);
+  }, []);
+
   // Skip rotation prompt - start video playback
   const handleSkipRotation = useCallback(() => {
     setSkippedRotation(true);
@@ -699,67 +849,78 @@ export function MobileDeviceSection({
   }, []);
 
   const showRotatePrompt = isClient && !isLandscape && !skippedRotation;
-  const showControls = isClient && (isLandscape || skippedRotation);
+  const showControls = isClient && !stillOnly && (isLandscape || skippedRotation);
 
   return (
     <section
       ref={sectionRef}
       className={`relative min-h-screen bg-[#050508] overflow-hidden ${className}`}
     >
+      {/* Back layer: interactive dot grid */}
+      <SectionDotGrid config={dotGrid} glowColor={glowColor} />
+
       {/* Ambient glow background - always visible */}
       <AmbientGlow intensity={isLandscape ? 0.8 : 0.5} color={glowColor} />
 
-      {/* 3D Canvas with iPhone - ALWAYS VISIBLE */}
+      {/* 3D Canvas with iPhone - while it holds a slot in the GL budget */}
       <div className="absolute inset-0 z-10">
-        <Canvas
-          camera={{ fov: 45, position: [0, 0, 4], near: 0.1, far: 100 }}
-          gl={{
-            antialias: true,
-            alpha: true,
-            powerPreference: 'high-performance',
-            toneMapping: THREE.ACESFilmicToneMapping,
-            toneMappingExposure: 1.5,
-          }}
-          dpr={[1, 2]}
-          onCreated={({ gl }) => {
-            gl.setClearColor(0x000000, 0);
-            gl.outputColorSpace = THREE.SRGBColorSpace;
-          }}
-        >
-          {/* Strong ambient for base visibility */}
-          <ambientLight intensity={1.5} />
-          
-          {/* Key light - main illumination */}
-          <directionalLight 
-            position={[5, 5, 5]} 
-            intensity={2} 
-            castShadow 
-          />
-          
-          {/* Fill light - soften shadows */}
-          <directionalLight 
-            position={[-5, 3, 3]} 
-            intensity={1} 
-          />
-          
-          {/* Rim light - edge definition */}
-          <directionalLight 
-            position={[0, -3, -5]} 
-            intensity={0.5} 
-          />
-          
-          {/* Top light */}
-          <pointLight position={[0, 5, 0]} intensity={1} />
-
-          <Suspense fallback={<LoadingIndicator />}>
-            <Environment preset="studio" />
-            <IPhoneModel
-              videoSrc={videoSrc}
-              isLandscape={isLandscape}
-              onVideoRef={handleVideoRef}
+        {surface.live && (
+          <Canvas
+            frameloop={surface.paused ? 'never' : 'always'}
+            camera={{ fov: 45, position: [0, 0, 4], near: 0.1, far: 100 }}
+            gl={{
+              antialias: true,
+              alpha: true,
+              powerPreference: 'high-performance',
+              toneMapping: THREE.ACESFilmicToneMapping,
+              toneMappingExposure: 1.5,
+            }}
+            dpr={[1, 2]}
+            onCreated={({ gl }) => {
+              gl.setClearColor(0x000000, 0);
+              gl.outputColorSpace = THREE.SRGBColorSpace;
+              bindCanvas(gl.domElement);
+            }}
+          >
+            <StudioLightRig rig={lightRig} glowColor={glowColor} />
+
+            {/* Remounted after a context restore: env map, poster and video texture rebuild */}
+            <Suspense key={restoreCount} fallback={<LoadingIndicator />}>
+              <StudioEnvironment
+                glowColor={glowColor}
+                environmentFiles={environmentFiles}
+                intensity={lightRig.environmentIntensity}
+              />
+              <ProgressiveModel asset={model} fallback={<LoadingIndicator />}>
+                {(modelSrc) => (
+                  <IPhoneModel
+                    modelSrc={modelSrc}
+                    ktx2={model.ktx2}
+                    videoSrc={videoSource}
+                    imageSrc={imageSrc}
+                    stillOnly={stillOnly}
+                    isLandscape={isLandscape}
+                    onVideoRef={handleVideoRef}
+                  />
+                )}
+              </ProgressiveModel>
+            </Suspense>
+          </Canvas>
+        )}
+
+        {/* Context lost or evicted by the budget: poster until the canvas is back */}
+        {showPoster && imageSrc && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div
+              role="img"
+              aria-label="Product demo"
+              className={`rounded-[2rem] bg-black bg-contain bg-center bg-no-repeat ${
+                isLandscape ? 'w-[80vw] aspect-[19.5/9]' : 'h-[70vh] aspect-[9/19.5]'
+              }`}
+              style={{ backgroundImage: `url(${imageSrc})` }}
             />
-          </Suspense>
-        </Canvas>
+          </div>
+        )}
       </div>
 
       {/* Rotate prompt overlay - shows on top of iPhone */}
@@ -769,6 +930,11 @@ export function MobileDeviceSection({
         )}
       </AnimatePresence>
 
+      {/* Captions - above the controls while the demo is playing */}
+      {showControls && captions.available && isPlaying && (
+        <CaptionOverlay text={captions.text} className="absolute inset-x-0 bottom-24 z-40" />
+      )}
+
       {/* Video controls - only show when rotated or skipped */}
       <AnimatePresence>
         {showControls && (
@@ -779,6 +945,9 @@ export function MobileDeviceSection({
             onFullscreen={handleFullscreen}
             onToggleMute={handleToggleMute}
             autoplayFailed={autoplayFailed}
+            captionsAvailable={captions.available}
+            captionsOn={captionsOn}
+            onToggleCaptions={handleToggleCaptions}
           />
         )}
       </AnimatePresence>
@@ -788,6 +957,6 @@ export function MobileDeviceSection({
 }
 
 // Preload the GLB
-useGLTF.preload('/iphone.glb');
+preloadModel(IPHONE_MODEL);
 
 export default MobileDeviceSection;
\ No newline at end of file
@@ -0,0 +1,40 @@
+// SectionDotGrid.tsx — Interactive dot grid as a landing section's back layer
+'use client';
+
+import DotGrid from '@/components/backgrounds/DotGrid';
+import type { DotGridProps } from '@/components/backgrounds/DotGrid';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SECTION DOT GRID
+// Sits under every other layer of a section. Lit dots take the section's
+// glowColor unless the config sets its own activeColor.
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** `true` for the defaults, or DotGrid props to override them */
+export type SectionDotGridConfig = boolean | Omit<DotGridProps, 'className' | 'style'>;
+
+const SECTION_DEFAULTS: Omit<DotGridProps, 'className' | 'style'> = {
+  baseColor: '#16161c',
+  gap: 28,
+  dotSize: 3,
+  scrollRipple: 0.6,
+};
+
+interface SectionDotGridProps {
+  config?: SectionDotGridConfig;
+  glowColor: string;
+}
+
+export function SectionDotGrid({ config, glowColor }: SectionDotGridProps) {
+  if (!config) return null;
+
+  const overrides = config === true ? {} : config;
+
+  return (
+    <div className="absolute inset-0 z-0 pointer-events-none" aria-hidden="true">
+      <DotGrid {...SECTION_DEFAULTS} activeColor={glowColor} {...overrides} />
+    </div>
+  );
+}
+
+export default SectionDotGrid;
@@ -0,0 +1,122 @@
+// StudioLighting.tsx — Offline studio environment + key/fill/rim light rig
+'use client';
+
+import { Suspense } from 'react';
+import { Environment, Lightformer } from '@react-three/drei';
+import * as THREE from 'three';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STUDIO LIGHTING
+// Reflections come from a self-hosted studio HDRI (Poly Haven "Studio Small
+// 03", CC0: 512×256, DWAB-compressed EXR, ~110 KB) instead of drei's CDN
+// preset, so the models look the same offline. A brand-colored ring is baked
+// on top of it into a small cube map once. Other .hdr / .exr files can be
+// passed via `environmentFiles`.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+type Vec3 = [number, number, number];
+
+interface RigLight {
+  position: Vec3;
+  intensity: number;
+}
+
+export interface LightRig {
+  ambient: number;
+  /** Main white light */
+  key: RigLight & { castShadow?: boolean };
+  /** Softens key shadows, lightly tinted with the glow color */
+  fill: RigLight;
+  /** Edge light behind the device in the glow color */
+  rim: RigLight;
+  /** Optional overhead point light */
+  top?: RigLight;
+  /** Overall strength of the environment reflections */
+  environmentIntensity: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Presets
+// ─────────────────────────────────────────────────────────────────────────────
+export const MACBOOK_LIGHT_RIG: LightRig = {
+  ambient: 0.4,
+  key: { position: [10, 10, 5], intensity: 1.0 },
+  fill: { position: [-5, 5, -5], intensity: 0.3 },
+  rim: { position: [0, 4, -12], intensity: 0.25 },
+  environmentIntensity: 1,
+};
+
+export const IPHONE_LIGHT_RIG: LightRig = {
+  ambient: 1.5,
+  key: { position: [5, 5, 5], intensity: 2, castShadow: true },
+  fill: { position: [-5, 3, 3], intensity: 1 },
+  rim: { position: [0, -3, -5], intensity: 0.5 },
+  top: { position: [0, 5, 0], intensity: 1 },
+  environmentIntensity: 1,
+};
+
+// How much of the glow color bleeds into the fill light
+const FILL_TINT = 0.15;
+// Cube map size for the baked environment (small: it's only reflections)
+const ENV_RESOLUTION = 256;
+/** Bundled studio HDRI (public/env) */
+export const STUDIO_ENVIRONMENT = '/env/studio-512.exr';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Environment
+// ─────────────────────────────────────────────────────────────────────────────
+interface StudioEnvironmentProps {
+  glowColor: string;
+  /** Self-hosted HDR / EXR (default: STUDIO_ENVIRONMENT) */
+  environmentFiles?: string | string[];
+  intensity?: number;
+}
+
+export function StudioEnvironment({
+  glowColor,
+  environmentFiles = STUDIO_ENVIRONMENT,
+  intensity = 1,
+}: StudioEnvironmentProps) {
+  // Own boundary: the model (or its proxy) shouldn't wait for the HDRI
+  return (
+    <Suspense fallback={null}>
+      <Environment files={environmentFiles} resolution={ENV_RESOLUTION} frames={1} environmentIntensity={intensity}>
+        {/* Brand-colored rim ring behind the device */}
+        <Lightformer form="ring" color={glowColor} intensity={1.2} position={[0, 1, -6]} scale={4} />
+      </Environment>
+    </Suspense>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Light Rig
+// ─────────────────────────────────────────────────────────────────────────────
+interface StudioLightRigProps {
+  rig: LightRig;
+  glowColor: string;
+}
+
+export function StudioLightRig({ rig, glowColor }: StudioLightRigProps) {
+  const fillColor = new THREE.Color('#ffffff').lerp(new THREE.Color(glowColor), FILL_TINT);
+
+  return (
+    <>
+      <ambientLight intensity={rig.ambient} />
+
+      {/* Key light - main illumination */}
+      <directionalLight position={rig.key.position} intensity={rig.key.intensity} castShadow={rig.key.castShadow} />
+
+      {/* Fill light - soften shadows */}
+      <directionalLight position={rig.fill.position} intensity={rig.fill.intensity} color={fillColor} />
+
+      {/* Rim light - edge definition in the brand color */}
+      <directionalLight position={rig.rim.position} intensity={rig.rim.intensity} color={glowColor} />
+
+      {/* Top light */}
+      {rig.top && <pointLight position={rig.top.position} intensity={rig.top.intensity} />}
+    </>
+  );
+}
@@ -0,0 +1,100 @@
+// VideoCaptions.tsx — WebVTT captions for videos rendered as Three.js textures
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { activeCueText, parseWebVTT } from '@/lib/webvtt';
+import type { VttCue } from '@/lib/webvtt';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VIDEO CAPTIONS
+// A VideoTexture never shows native <track> subtitles, so cues are parsed
+// here and drawn as a DOM overlay synced to the underlying <video>.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Hook
+// ─────────────────────────────────────────────────────────────────────────────
+interface VideoCaptionsState {
+  /** True once the captions file loaded with at least one cue */
+  available: boolean;
+  /** Active cue text, or null between cues / while captions are off */
+  text: string | null;
+}
+
+export function useVideoCaptions(
+  video: HTMLVideoElement | null,
+  captionsSrc: string | undefined,
+  enabled: boolean
+): VideoCaptionsState {
+  const [cues, setCues] = useState<VttCue[]>([]);
+  const [text, setText] = useState<string | null>(null);
+
+  // Load + parse the captions file
+  useEffect(() => {
+    if (!captionsSrc) return;
+
+    const controller = new AbortController();
+    fetch(captionsSrc, { signal: controller.signal })
+      .then((res) => (res.ok ? res.text() : Promise.reject(new Error(`${res.status}`))))
+      .then((source) => setCues(parseWebVTT(source)))
+      .catch(() => {
+        if (!controller.signal.aborted) setCues([]);
+      });
+
+    return () => controller.abort();
+  }, [captionsSrc]);
+
+  // Follow playback
+  useEffect(() => {
+    if (!video || !enabled || cues.length === 0) return;
+
+    const update = () => setText(activeCueText(cues, video.currentTime));
+    update();
+
+    video.addEventListener('timeupdate', update);
+    video.addEventListener('seeked', update);
+    return () => {
+      video.removeEventListener('timeupdate', update);
+      video.removeEventListener('seeked', update);
+    };
+  }, [video, enabled, cues]);
+
+  const available = Boolean(captionsSrc) && cues.length > 0;
+  return { available, text: available && enabled ? text : null };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Overlay
+// ─────────────────────────────────────────────────────────────────────────────
+interface CaptionOverlayProps {
+  text: string | null;
+  className?: string;
+}
+
+export function CaptionOverlay({ text, className = '' }: CaptionOverlayProps) {
+  return (
+    <div
+      role="region"
+      aria-label="Video captions"
+      aria-live="polite"
+      className={`flex justify-center px-6 pointer-events-none ${className}`}
+    >
+      <AnimatePresence mode="wait">
+        {text && (
+          <motion.p
+            key={text}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.15 }}
+            className="max-w-2xl px-3 py-1.5 rounded-lg bg-black/70 text-white text-center
+                       text-sm sm:text-base leading-snug whitespace-pre-line"
+          >
+            {text}
+          </motion.p>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+// modelAssets.tsx — Compressed GLB loading, low-poly proxies and load progress
+'use client';
+
+import { Suspense } from 'react';
+import type { ReactNode } from 'react';
+import { useLoader, useThree } from '@react-three/fiber';
+import { Html, useProgress } from '@react-three/drei';
+import * as THREE from 'three';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MODEL ASSETS
+// Device GLBs are Draco-compressed (scripts/optimize-models.mjs) and may carry
+// Meshopt geometry or KTX2 (Basis) textures. An optional low-poly proxy renders
+// as soon as it arrives and is swapped for the full model once that has decoded.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+export interface ModelAsset {
+  /** Full-detail GLB */
+  src: string;
+  /** Small stand-in shown while `src` loads (same node names as the full model) */
+  proxySrc?: string;
+  /**
+   * Set when textures use KHR_texture_basisu. The transcoder needs a renderer,
+   * so these models are not preloaded before a canvas exists.
+   */
+  ktx2?: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Config
+// ─────────────────────────────────────────────────────────────────────────────
+export const MAC_MODEL: ModelAsset = { src: '/mac.glb' };
+export const IPHONE_MODEL: ModelAsset = { src: '/iphone.glb', proxySrc: '/iphone-proxy.glb' };
+
+/** Self-hosted decoders, copied from the installed three.js by scripts/copy-decoders.mjs */
+const DRACO_DECODER_PATH = '/draco/';
+const BASIS_TRANSCODER_PATH = '/basis/';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Decoders
+// ─────────────────────────────────────────────────────────────────────────────
+let dracoLoader: DRACOLoader | null = null;
+
+const getDracoLoader = (): DRACOLoader => {
+  dracoLoader ??= new DRACOLoader().setDecoderPath(DRACO_DECODER_PATH);
+  return dracoLoader;
+};
+
+/** KTX2 loader, one per renderer */
+let ktx2Loader: KTX2Loader | null = null;
+let ktx2Renderer: THREE.WebGLRenderer | null = null;
+
+const getKtx2Loader = (gl: THREE.WebGLRenderer): KTX2Loader => {
+  if (!ktx2Loader || ktx2Renderer !== gl) {
+    ktx2Loader?.dispose();
+    ktx2Loader = new KTX2Loader().setTranscoderPath(BASIS_TRANSCODER_PATH).detectSupport(gl);
+    ktx2Renderer = gl;
+  }
+  return ktx2Loader;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Loading
+// ─────────────────────────────────────────────────────────────────────────────
+const withDecoders = (loader: GLTFLoader): void => {
+  loader.setDRACOLoader(getDracoLoader());
+  loader.setMeshoptDecoder(MeshoptDecoder);
+};
+
+/** Loads a GLB with Draco + Meshopt decoding, and KTX2 textures when `ktx2` is set. */
+export function useModelGLTF(src: string, ktx2 = false) {
+  const gl = useThree((state) => state.gl);
+
+  return useLoader(GLTFLoader, src, (loader) => {
+    withDecoders(loader);
+    if (ktx2) loader.setKTX2Loader(getKtx2Loader(gl));
+  });
+}
+
+/**
+ * Start fetching + decoding a model (and its proxy) before it mounts. The result
+ * lands in the same cache useModelGLTF reads from, so nothing is fetched twice.
+ */
+export function preloadModel({ src, proxySrc, ktx2 }: ModelAsset): void {
+  if (ktx2) return;
+  if (proxySrc) useLoader.preload(GLTFLoader, proxySrc, withDecoders);
+  useLoader.preload(GLTFLoader, src, withDecoders);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Progressive model
+// ─────────────────────────────────────────────────────────────────────────────
+interface ProgressiveModelProps {
+  asset: ModelAsset;
+  /** Shown until the proxy (or, without one, the full model) is ready */
+  fallback: ReactNode;
+  /** Renders the model for a given GLB url */
+  children: (src: string) => ReactNode;
+}
+
+/** Full model, falling back to the proxy, falling back to `fallback`. */
+export function ProgressiveModel({ asset, fallback, children }: ProgressiveModelProps) {
+  const proxy = asset.proxySrc ? (
+    <Suspense fallback={fallback}>{children(asset.proxySrc)}</Suspense>
+  ) : (
+    fallback
+  );
+
+  return <Suspense fallback={proxy}>{children(asset.src)}</Suspense>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Progress
+// ─────────────────────────────────────────────────────────────────────────────
+/** Loader progress (0-100) across everything going through three's loading manager. */
+export function useModelProgress(): { active: boolean; progress: number } {
+  const active = useProgress((state) => state.active);
+  const progress = useProgress((state) => state.progress);
+  return { active, progress: Math.round(progress) };
+}
+
+/** Percentage label for in-canvas loading indicators */
+export function LoadingProgress() {
+  const { progress } = useModelProgress();
+
+  return (
+    <Html center>
+      <span className="text-xs font-medium tabular-nums text-white/50">{progress}%</span>
+    </Html>
+  );
+}
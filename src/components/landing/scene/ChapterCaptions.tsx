@@ -0,0 +1,142 @@
+// ChapterCaptions.tsx — Chapter caption cards + seek dots for the screen video
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHAPTER CAPTIONS
+// Follows the VideoTexture's underlying <video>, shows the active chapter
+// beside the laptop and lets the visitor jump between chapters.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+export interface VideoChapter {
+  /** Chapter start, in seconds from the beginning of the video */
+  start: number;
+  title: string;
+  description?: string;
+}
+
+interface ChapterCaptionsProps {
+  chapters: VideoChapter[];
+  video: HTMLVideoElement | null;
+  /** 0–1, fades the captions in with the lid */
+  visibility: number;
+  /** Seek the screen video to a time in seconds */
+  onSeek: (time: number) => void;
+  accentColor: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utility
+// ─────────────────────────────────────────────────────────────────────────────
+const activeIndexAt = (chapters: VideoChapter[], time: number): number => {
+  let index = 0;
+  chapters.forEach((chapter, i) => {
+    if (chapter.start <= time) index = i;
+  });
+  return index;
+};
+
+const formatTime = (seconds: number): string => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Component
+// ─────────────────────────────────────────────────────────────────────────────
+export function ChapterCaptions({
+  chapters,
+  video,
+  visibility,
+  onSeek,
+  accentColor,
+}: ChapterCaptionsProps) {
+  const sorted = useMemo(() => [...chapters].sort((a, b) => a.start - b.start), [chapters]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Follow playback
+  useEffect(() => {
+    if (!video) return;
+
+    const update = () => setActiveIndex(activeIndexAt(sorted, video.currentTime));
+    video.addEventListener('timeupdate', update);
+    video.addEventListener('seeked', update);
+    return () => {
+      video.removeEventListener('timeupdate', update);
+      video.removeEventListener('seeked', update);
+    };
+  }, [video, sorted]);
+
+  if (sorted.length === 0) return null;
+
+  const seekTo = (index: number) => {
+    onSeek(sorted[index].start);
+    setActiveIndex(index);
+  };
+
+  const active = sorted[activeIndex];
+  const interactive = visibility > 0.5;
+
+  return (
+    <div
+      className="absolute right-[4vw] top-1/2 -translate-y-1/2 w-[22vw] max-w-xs flex flex-col gap-4"
+      style={{
+        opacity: visibility,
+        pointerEvents: interactive ? 'auto' : 'none',
+        transition: 'opacity 0.2s ease-out',
+      }}
+      aria-hidden={!interactive}
+    >
+      {/* Caption card */}
+      <div aria-live="polite" className="min-h-28">
+        <AnimatePresence mode="wait">
+          <motion.div
+            key={activeIndex}
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.25, ease: 'easeOut' }}
+            className="px-5 py-4 bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10"
+          >
+            <div className="text-[11px] font-mono tracking-wider" style={{ color: accentColor }}>
+              {String(activeIndex + 1).padStart(2, '0')} · {formatTime(active.start)}
+            </div>
+            <div className="mt-1 text-white/90 text-lg font-semibold leading-snug">{active.title}</div>
+            {active.description && (
+              <p className="mt-1.5 text-white/50 text-sm leading-relaxed">{active.description}</p>
+            )}
+          </motion.div>
+        </AnimatePresence>
+      </div>
+
+      {/* Navigation dots */}
+      <nav aria-label="Video chapters" className="flex items-center gap-2.5 pl-1">
+        {sorted.map((chapter, i) => (
+          <button
+            key={`${chapter.start}-${chapter.title}`}
+            type="button"
+            onClick={() => seekTo(i)}
+            aria-label={`Jump to ${chapter.title}`}
+            aria-current={i === activeIndex ? 'step' : undefined}
+            tabIndex={interactive ? 0 : -1}
+            className="group p-1 rounded-full focus-visible:outline focus-visible:outline-white/40"
+          >
+            <span
+              className="block h-2 rounded-full transition-all duration-300"
+              style={{
+                width: i === activeIndex ? 20 : 8,
+                background: i === activeIndex ? accentColor : 'rgba(255, 255, 255, 0.25)',
+              }}
+            />
+          </button>
+        ))}
+      </nav>
+    </div>
+  );
+}
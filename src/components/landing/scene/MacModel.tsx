@@ -0,0 +1,271 @@
+// MacModel.tsx — MacBook GLB with scroll-driven lid and video screen
+'use client';
+
+import { useRef, useEffect, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { assignVideoSource, estimateTargetWidth, videoSourceKey } from '@/lib/videoRenditions';
+import type { VideoSource } from '@/lib/videoRenditions';
+import { LoadingProgress, MAC_MODEL, useModelGLTF } from '../modelAssets';
+import { useScreenPoster } from '../screenPoster';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Video preloading singleton (replaced when a different source is asked for)
+// ─────────────────────────────────────────────────────────────────────────────
+let preloadedVideo: HTMLVideoElement | null = null;
+let preloadedKey: string | null = null;
+
+// Share of the (full-viewport) canvas width the MacBook screen covers
+const SCREEN_VIEWPORT_FRACTION = 0.55;
+
+export function preloadVideo(source: VideoSource): HTMLVideoElement {
+  const key = videoSourceKey(source);
+  if (preloadedVideo && preloadedKey === key) return preloadedVideo;
+
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.loop = true;
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  assignVideoSource(video, source, {
+    targetWidth: estimateTargetWidth(SCREEN_VIEWPORT_FRACTION),
+  }).catch(() => { /* Selection failed - error handlers on the element take over */ });
+  preloadedVideo = video;
+  preloadedKey = key;
+
+  return video;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Three.js MacBook Model
+// ─────────────────────────────────────────────────────────────────────────────
+/** 'letterbox' keeps the video's aspect ratio, 'stretch' fills the screen mesh */
+export type ScreenFit = 'letterbox' | 'stretch';
+
+const SCREEN_ASPECT = 16 / 10; // MacBook screen ~16:10
+
+/** Letterbox / pillarbox content of the given aspect onto the 16:10 screen */
+const letterbox = (texture: THREE.Texture, contentAspect: number) => {
+  if (!contentAspect) return;
+
+  if (contentAspect > SCREEN_ASPECT) {
+    // Content is wider → black bars top/bottom (letterbox)
+    const scale = SCREEN_ASPECT / contentAspect;
+    texture.repeat.set(1, scale);
+    texture.offset.set(0, (1 - scale) / 2);
+  } else {
+    // Content is taller → black bars left/right (pillarbox)
+    const scale = contentAspect / SCREEN_ASPECT;
+    texture.repeat.set(scale, 1);
+    texture.offset.set((1 - scale) / 2, 0);
+  }
+};
+
+const letterboxImage = (texture: THREE.Texture) => {
+  const image = texture.image as { width: number; height: number };
+  letterbox(texture, image.width / image.height);
+};
+
+interface MacModelProps {
+  /** GLB to render (the full model, or its low-poly proxy) */
+  modelSrc?: string;
+  /** The GLB uses KTX2 textures */
+  ktx2?: boolean;
+  videoSrc?: VideoSource;
+  /** Poster shown until the video plays, and instead of it when it can't */
+  imageSrc?: string;
+  scale?: number;
+  lidAngle: number;
+  shouldPlay: boolean;
+  screenFit?: ScreenFit;
+  /** Never load the video (save-data / reduced motion); the poster stays up */
+  stillOnly?: boolean;
+  onVideoRef?: (video: HTMLVideoElement | null) => void;
+}
+
+export function MacModel({
+  modelSrc = MAC_MODEL.src,
+  ktx2 = false,
+  videoSrc,
+  imageSrc,
+  scale = 1,
+  lidAngle,
+  shouldPlay,
+  screenFit = 'letterbox',
+  stillOnly = false,
+  onVideoRef,
+}: MacModelProps) {
+  const gltf = useModelGLTF(modelSrc, ktx2);
+  const screenRef = useRef<THREE.Object3D | null>(null);
+  const matteRef = useRef<THREE.Mesh | null>(null);
+  const targetRotation = useRef(Math.PI);
+  const groupRef = useRef<THREE.Group>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const videoTextureRef = useRef<THREE.VideoTexture | null>(null);
+  const [hasFrame, setHasFrame] = useState(false);
+  const [videoFailed, setVideoFailed] = useState(false);
+
+  const useVideo = Boolean(videoSrc) && !stillOnly;
+
+  // Update target rotation when lid angle changes
+  useEffect(() => {
+    targetRotation.current = THREE.MathUtils.degToRad(180 - lidAngle * 100);
+  }, [lidAngle]);
+
+  // Find screen and matte meshes
+  useEffect(() => {
+    if (!gltf.scene) return;
+
+    gltf.scene.traverse((child) => {
+      const name = child.name.toLowerCase();
+
+      if (name === 'screen' || name.includes('screen') || name.includes('lid')) {
+        screenRef.current = child;
+      }
+
+      if ((child as THREE.Mesh).isMesh) {
+        if (name === 'matte' || name.includes('matte')) {
+          matteRef.current = child as THREE.Mesh;
+        }
+      }
+    });
+
+    // Start at the current lid angle so a proxy → full model swap doesn't snap shut
+    if (screenRef.current) {
+      screenRef.current.rotation.x = targetRotation.current;
+    }
+
+    // Matte screen: no reflections over the video / poster
+    if (matteRef.current) {
+      const mat = matteRef.current.material as THREE.MeshStandardMaterial;
+      mat.metalness = 0;
+      mat.roughness = 1;
+      mat.envMapIntensity = 0;
+      mat.needsUpdate = true;
+    }
+  }, [gltf.scene]);
+
+  // Keyed by content, so an inline renditions array doesn't rebuild the texture
+  const videoKey = videoSrc ? videoSourceKey(videoSrc) : null;
+
+  // Frame / failure flags describe one source: start over when it changes
+  const [frameKey, setFrameKey] = useState(videoKey);
+  if (frameKey !== videoKey) {
+    setFrameKey(videoKey);
+    setHasFrame(false);
+    setVideoFailed(false);
+  }
+
+  const videoSrcRef = useRef(videoSrc);
+  useEffect(() => {
+    videoSrcRef.current = videoSrc;
+  }, [videoSrc]);
+
+  // Video texture setup
+  useEffect(() => {
+    const source = videoSrcRef.current;
+    if (!videoKey || !source || stillOnly || !matteRef.current) return;
+
+    const video = preloadVideo(source);
+    videoRef.current = video;
+    onVideoRef?.(video);
+
+    const texture = new THREE.VideoTexture(video);
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.colorSpace = THREE.SRGBColorSpace;
+    videoTextureRef.current = texture;
+
+    const mat = matteRef.current.material as THREE.MeshStandardMaterial;
+    mat.map = texture;
+    mat.emissive = new THREE.Color(0x000000);
+    mat.emissiveIntensity = 0;
+    mat.needsUpdate = true;
+
+    // Poster → video crossfade once real frames are playing
+    const markPlaying = () => {
+      if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) setHasFrame(true);
+    };
+    const markFailed = () => setVideoFailed(true);
+
+    if (video.error) markFailed();
+    else if (!video.paused) markPlaying();
+
+    video.addEventListener('playing', markPlaying);
+    video.addEventListener('error', markFailed);
+
+    // Aspect-ratio-preserving letterbox, once metadata is ready
+    const applyLetterbox = () => letterbox(texture, video.videoWidth / video.videoHeight);
+
+    if (screenFit === 'letterbox') {
+      if (video.readyState >= 1) {
+        applyLetterbox();
+      } else {
+        video.addEventListener('loadedmetadata', applyLetterbox, { once: true });
+      }
+    }
+
+    return () => {
+      video.removeEventListener('playing', markPlaying);
+      video.removeEventListener('error', markFailed);
+      video.removeEventListener('loadedmetadata', applyLetterbox);
+      texture.dispose();
+    };
+  }, [videoKey, stillOnly, screenFit, gltf.scene, onVideoRef]);
+
+  // Poster until the video plays; permanently when there is no usable video
+  useScreenPoster(matteRef, {
+    src: imageSrc,
+    visible: !useVideo || videoFailed || !hasFrame,
+    scene: gltf.scene,
+    fit: screenFit === 'letterbox' ? letterboxImage : undefined,
+  });
+
+  // Video play/pause control
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (shouldPlay) {
+      video.play().catch(() => { /* Autoplay blocked - user will tap */ });
+    } else {
+      video.pause();
+    }
+  }, [shouldPlay]);
+
+  // Smooth animation frame
+  useFrame(() => {
+    if (screenRef.current) {
+      screenRef.current.rotation.x += (targetRotation.current - screenRef.current.rotation.x) * 0.1;
+    }
+    if (videoTextureRef.current) {
+      videoTextureRef.current.needsUpdate = true;
+    }
+  });
+
+  return (
+    <group ref={groupRef} position={[0, -5.5, 20]} scale={scale}>
+      <primitive object={gltf.scene} />
+    </group>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Loading indicator
+// ─────────────────────────────────────────────────────────────────────────────
+export function LoadingIndicator() {
+  const ref = useRef<THREE.Mesh>(null);
+  useFrame((_, delta) => {
+    if (ref.current) ref.current.rotation.y += delta;
+  });
+  return (
+    <>
+      <mesh ref={ref}>
+        <boxGeometry args={[1, 1, 1]} />
+        <meshStandardMaterial color="#222" wireframe />
+      </mesh>
+      <LoadingProgress />
+    </>
+  );
+}
@@ -0,0 +1,319 @@
+// SceneLayers.tsx — Composable visual layers for the MacBook scroll scene
+'use client';
+
+import React from 'react';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCENE LAYERS
+// CSS light / text layers stacked around the 3D canvas. Each variant of the
+// scroll scene picks which layers it renders.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Alcove-Style Hero Text
+// ─────────────────────────────────────────────────────────────────────────────
+interface HeroTextProps {
+  line1: string;
+  line2?: string;
+  lidAngle: number;
+}
+
+const HERO_TEXT_FILL: React.CSSProperties = {
+  background: `linear-gradient(
+    to bottom,
+    rgba(255, 255, 255, 0.18) 0%,
+    rgba(255, 255, 255, 0.14) 30%,
+    rgba(255, 255, 255, 0.08) 60%,
+    rgba(255, 255, 255, 0.02) 85%,
+    rgba(255, 255, 255, 0.00) 100%
+  )`,
+  WebkitBackgroundClip: 'text',
+  WebkitTextFillColor: 'transparent',
+  backgroundClip: 'text',
+  WebkitFontSmoothing: 'antialiased',
+};
+
+export function HeroText({ line1, line2, lidAngle }: HeroTextProps) {
+  const opacity = Math.max(0, 1 - lidAngle * 2.5);
+  const translateY = -lidAngle * 50;
+
+  return (
+    <div
+      className="absolute inset-0 flex flex-col items-center pointer-events-none"
+      style={{
+        justifyContent: 'center',
+        paddingTop: '4vh',
+        opacity,
+        transform: `translateY(${translateY}px)`,
+        transition: 'opacity 0.08s ease-out, transform 0.08s ease-out',
+      }}
+    >
+      <h2
+        className="text-[6.5vw] font-black tracking-[-0.03em] whitespace-nowrap select-none leading-[1.1]"
+        style={HERO_TEXT_FILL}
+      >
+        {line1}
+      </h2>
+      {line2 && (
+        <h2
+          className="text-[6.5vw] font-black tracking-[-0.03em] whitespace-nowrap select-none leading-[1.1]"
+          style={HERO_TEXT_FILL}
+        >
+          {line2}
+        </h2>
+      )}
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Ambient Background Glow
+// ─────────────────────────────────────────────────────────────────────────────
+interface AmbientBackgroundProps {
+  intensity: number;
+}
+
+export function AmbientBackground({ intensity }: AmbientBackgroundProps) {
+  const baseOpacity = 0.03;
+  const dynamicOpacity = baseOpacity + intensity * 0.08;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <div
+        className="absolute left-1/2 top-[45%] -translate-x-1/2 -translate-y-1/2"
+        style={{
+          width: '80vw',
+          height: '70vh',
+          background: `radial-gradient(ellipse 60% 50% at center,
+            rgba(255, 255, 255, ${dynamicOpacity * 1.5}) 0%,
+            rgba(255, 255, 255, ${dynamicOpacity}) 25%,
+            rgba(255, 255, 255, ${dynamicOpacity * 0.5}) 45%,
+            rgba(255, 255, 255, ${dynamicOpacity * 0.2}) 65%,
+            transparent 85%
+          )`,
+          filter: 'blur(80px)',
+        }}
+      />
+      <div
+        className="absolute left-1/2 top-[65%] -translate-x-1/2"
+        style={{
+          width: '100vw',
+          height: '20vh',
+          background: `radial-gradient(ellipse 80% 100% at center top,
+            rgba(255, 255, 255, ${dynamicOpacity * 0.8}) 0%,
+            rgba(255, 255, 255, ${dynamicOpacity * 0.3}) 40%,
+            transparent 70%
+          )`,
+          filter: 'blur(60px)',
+        }}
+      />
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Under-Mac White Circular Light
+// ─────────────────────────────────────────────────────────────────────────────
+interface UnderMacLightProps {
+  intensity: number;
+}
+
+export function UnderMacLight({ intensity }: UnderMacLightProps) {
+  const opacity = Math.max(0, Math.min(1, intensity)) * 0.55;
+  const scale = 0.85 + intensity * 0.25;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <div
+        className="absolute left-1/2 top-[78%] -translate-x-1/2 -translate-y-1/2"
+        style={{
+          width: `${58 * scale}vw`,
+          height: `${18 * scale}vh`,
+          opacity,
+          background: `radial-gradient(ellipse 60% 80% at center,
+            rgba(255,255,255,0.22) 0%,
+            rgba(255,255,255,0.12) 28%,
+            rgba(255,255,255,0.06) 48%,
+            rgba(255,255,255,0.03) 62%,
+            transparent 76%
+          )`,
+          filter: `blur(${55 + intensity * 35}px)`,
+        }}
+      />
+      <div
+        className="absolute left-1/2 top-[79%] -translate-x-1/2 -translate-y-1/2"
+        style={{
+          width: `${26 * scale}vw`,
+          height: `${7 * scale}vh`,
+          opacity: opacity * 0.9,
+          background: `radial-gradient(ellipse at center,
+            rgba(255,255,255,0.28) 0%,
+            rgba(255,255,255,0.10) 40%,
+            transparent 72%
+          )`,
+          filter: `blur(${28 + intensity * 18}px)`,
+        }}
+      />
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Light Beam on Ground
+// ─────────────────────────────────────────────────────────────────────────────
+interface LightBeamProps {
+  intensity: number;
+  color?: string;
+}
+
+export function LightBeam({ intensity, color = '#6366f1' }: LightBeamProps) {
+  const opacity = Math.max(0, intensity * 0.6);
+  const scale = 0.7 + intensity * 0.5;
+
+  return (
+    <div className="absolute bottom-[8%] left-1/2 -translate-x-1/2 pointer-events-none" style={{ opacity }}>
+      <div
+        style={{
+          width: `${50 * scale}vw`,
+          height: `${15 * scale}vh`,
+          background: `radial-gradient(ellipse 70% 100% at center,
+            ${color}20 0%,
+            ${color}10 30%,
+            ${color}05 50%,
+            transparent 70%
+          )`,
+          filter: `blur(${30 + intensity * 20}px)`,
+          transform: `translateX(-50%) scaleY(${0.5 + intensity * 0.3})`,
+        }}
+      />
+      <div
+        className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2"
+        style={{
+          width: `${25 * scale}vw`,
+          height: `${8 * scale}vh`,
+          background: `radial-gradient(ellipse at center,
+            ${color}25 0%,
+            ${color}10 40%,
+            transparent 70%
+          )`,
+          filter: `blur(${20 + intensity * 15}px)`,
+        }}
+      />
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Screen Glow
+// ─────────────────────────────────────────────────────────────────────────────
+interface ScreenGlowProps {
+  intensity: number;
+  color?: string;
+}
+
+export function ScreenGlow({ intensity, color = '#4a9eff' }: ScreenGlowProps) {
+  const opacity = Math.max(0, (intensity - 0.2) * 1.25);
+  const scale = 0.8 + intensity * 0.3;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" style={{ opacity }}>
+      <div
+        className="absolute left-1/2 top-[35%] -translate-x-1/2 -translate-y-1/2"
+        style={{
+          width: `${40 * scale}vw`,
+          height: `${30 * scale}vh`,
+          background: `radial-gradient(ellipse at center,
+            ${color}12 0%,
+            ${color}06 40%,
+            transparent 70%
+          )`,
+          filter: `blur(${45 + intensity * 35}px)`,
+        }}
+      />
+      <div
+        className="absolute left-1/2 top-[40%] -translate-x-1/2 -translate-y-1/2"
+        style={{
+          width: `${65 * scale}vw`,
+          height: `${50 * scale}vh`,
+          background: `radial-gradient(ellipse at center,
+            ${color}06 0%,
+            ${color}02 50%,
+            transparent 75%
+          )`,
+          filter: `blur(${70 + intensity * 40}px)`,
+        }}
+      />
+    </div>
+  );
+}
+
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Layer Stack
+// ─────────────────────────────────────────────────────────────────────────────
+export type SceneLayerId = 'ambient' | 'underLight' | 'heroText' | 'screenGlow' | 'lightBeam';
+
+export const DEFAULT_SCENE_LAYERS: SceneLayerId[] = [
+  'ambient',
+  'underLight',
+  'heroText',
+  'screenGlow',
+  'lightBeam',
+];
+
+interface SceneLayersProps {
+  layers?: SceneLayerId[];
+  /** 0–1, how far the lid is open */
+  intensity: number;
+  lidAngle: number;
+  glowColor: string;
+  heroLine1: string;
+  heroLine2?: string;
+}
+
+// The 3D canvas sits at z-20, so every layer here keeps its z-index whatever
+// order it is listed in.
+export function SceneLayers({
+  layers = DEFAULT_SCENE_LAYERS,
+  intensity,
+  lidAngle,
+  glowColor,
+  heroLine1,
+  heroLine2,
+}: SceneLayersProps) {
+  const has = (id: SceneLayerId) => layers.includes(id);
+
+  return (
+    <>
+      {has('ambient') && (
+        <div className="absolute inset-0 z-0">
+          <AmbientBackground intensity={intensity} />
+        </div>
+      )}
+
+      {has('underLight') && (
+        <div className="absolute inset-0 z-3 pointer-events-none">
+          <UnderMacLight intensity={intensity} />
+        </div>
+      )}
+
+      {has('heroText') && (
+        <div className="absolute inset-0 z-5 pointer-events-none">
+          <HeroText line1={heroLine1} line2={heroLine2} lidAngle={lidAngle} />
+        </div>
+      )}
+
+      {has('screenGlow') && (
+        <div className="absolute inset-0 z-10">
+          <ScreenGlow intensity={intensity} color={glowColor} />
+        </div>
+      )}
+
+      {has('lightBeam') && (
+        <div className="absolute inset-0 z-15 pointer-events-none">
+          <LightBeam intensity={intensity} color={glowColor} />
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,234 @@
+// scrollLockMachine.test.ts — Reducer scenarios for the MacBook lid phase machine
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_SCROLL_LOCK_CONFIG,
+  INITIAL_SCROLL_LOCK_STATE,
+  scrollLockReducer,
+} from './scrollLockMachine';
+import type {
+  InputSource,
+  ScrollLockEvent,
+  ScrollLockMachineState,
+  ScrollLockTransition,
+  SectionMetrics,
+} from './scrollLockMachine';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+const config = DEFAULT_SCROLL_LOCK_CONFIG;
+
+/** Section pinned at the top of a 1000px viewport */
+const PINNED: SectionMetrics = { sectionTop: 0, sectionHeight: 2000, viewportHeight: 1000 };
+
+const delta = (deltaY: number, source: InputSource = 'wheel', metrics = PINNED): ScrollLockEvent => ({
+  type: 'delta',
+  deltaY,
+  source,
+  ...metrics,
+});
+
+const scroll = (sectionTop: number): ScrollLockEvent => ({ type: 'scroll', ...PINNED, sectionTop });
+
+const step = (state: ScrollLockMachineState, event: ScrollLockEvent, now = 0): ScrollLockTransition =>
+  scrollLockReducer(state, event, now, config);
+
+/** Feed events in order, returning the last transition */
+const run = (state: ScrollLockMachineState, events: ScrollLockEvent[], now = 0): ScrollLockTransition =>
+  events.reduce<ScrollLockTransition>((prev, event) => step(prev.state, event, now), {
+    state,
+    effects: { preventDefault: false, scrollBy: [], hold: null, video: null },
+  });
+
+/** Engaged: opening, nothing accumulated yet */
+const engaged = (): ScrollLockMachineState => step(INITIAL_SCROLL_LOCK_STATE, delta(10)).state;
+
+/** Fully open with the hold started at t = 0 */
+const opened = (): ScrollLockMachineState => step(engaged(), delta(config.deadZone + config.openScrollDistance)).state;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scenarios
+// ─────────────────────────────────────────────────────────────────────────────
+describe('scrollLockReducer', () => {
+  describe('dead zone', () => {
+    it('engages on the first downward delta without moving the lid', () => {
+      const { state, effects } = step(INITIAL_SCROLL_LOCK_STATE, delta(40));
+
+      expect(state.phase).toBe('opening');
+      expect(state.acc).toBe(0);
+      expect(effects).toEqual({ preventDefault: true, scrollBy: [], hold: 'clear', video: null });
+    });
+
+    it('swallows scroll inside the dead zone', () => {
+      const { state, effects } = step(engaged(), delta(config.deadZone));
+
+      expect(state.phase).toBe('opening');
+      expect(state.lidAngle).toBe(0);
+      expect(effects.preventDefault).toBe(true);
+      expect(effects.scrollBy).toEqual([]);
+    });
+
+    it('moves the lid once past the dead zone', () => {
+      const { state } = step(engaged(), delta(config.deadZone + config.openScrollDistance / 10));
+
+      expect(state.openProgress).toBeCloseTo(0.1);
+      expect(state.lidAngle).toBeCloseTo(0.1 * config.maxLidAngle);
+    });
+
+    it('plays the video when the lid crosses the threshold', () => {
+      const { effects } = step(engaged(), delta(config.deadZone + config.openScrollDistance / 2));
+      expect(effects.video).toBe('play');
+    });
+  });
+
+  describe('hold timing', () => {
+    it('starts the hold when the lid reaches open', () => {
+      const { state, effects } = step(engaged(), delta(config.deadZone + config.openScrollDistance), 1000);
+
+      expect(state.phase).toBe('open');
+      expect(state.openHoldUntil).toBe(1000 + config.openHoldMs);
+      expect(effects.hold).toBe(config.openHoldMs);
+    });
+
+    it('ignores downward scroll during the hold', () => {
+      const { state, effects } = step(opened(), delta(config.breathingRoom * 2), config.openHoldMs - 1);
+
+      expect(state.phase).toBe('open');
+      expect(state.acc).toBe(0);
+      expect(effects.preventDefault).toBe(true);
+    });
+
+    it('counts scroll held back during the hold toward the breathing room', () => {
+      const held = step(opened(), delta(config.breathingRoom - 10), 100).state;
+      const { state, effects } = step(held, delta(20), config.openHoldMs + 1);
+
+      expect(state.phase).toBe('closing');
+      expect(effects.hold).toBe('clear');
+    });
+
+    it('closes only after the breathing room is spent', () => {
+      const after = config.openHoldMs + 1;
+      const partway = step(opened(), delta(config.breathingRoom - 1), after);
+      expect(partway.state.phase).toBe('open');
+
+      const { state } = step(partway.state, delta(2), after);
+      expect(state.phase).toBe('closing');
+    });
+  });
+
+  describe('reverse scroll', () => {
+    it('returns to locked when scrolled back past the start', () => {
+      const { state, effects } = run(engaged(), [delta(config.deadZone + 50), delta(-500)]);
+
+      expect(state).toMatchObject({ phase: 'locked', lidAngle: 0, acc: 0 });
+      expect(effects.hold).toBe('clear');
+    });
+
+    it('reopens from open only past the reverse threshold', () => {
+      const small = step(opened(), delta(-50));
+      expect(small.state.phase).toBe('open');
+
+      const { state } = step(small.state, delta(-20));
+      expect(state.phase).toBe('opening');
+      expect(state.lidAngle).toBe(config.maxLidAngle);
+    });
+
+    it('reopens from closing with a shorter hold', () => {
+      const closing = step(opened(), delta(config.breathingRoom + 1), config.openHoldMs + 1).state;
+      const { state, effects } = step(closing, delta(-50), 5000);
+
+      const holdMs = Math.round(config.openHoldMs * 0.6);
+      expect(state.phase).toBe('open');
+      expect(state.openHoldUntil).toBe(5000 + holdMs);
+      expect(effects.hold).toBe(holdMs);
+    });
+
+    it('pauses the video when closing back under the threshold', () => {
+      const partly = step(engaged(), delta(config.deadZone + config.openScrollDistance / 2)).state;
+      const { effects } = step(partly, delta(-config.openScrollDistance / 2));
+
+      expect(effects.video).toBe('pause');
+    });
+  });
+
+  describe('fast flicks', () => {
+    it('opens in one event and keeps the excess for later', () => {
+      const { state, effects } = step(engaged(), delta(2000));
+
+      expect(state.phase).toBe('open');
+      expect(state.overflowDown).toBe(2000 - config.deadZone - config.openScrollDistance);
+      expect(effects).toMatchObject({ preventDefault: true, hold: config.openHoldMs, video: 'play' });
+    });
+
+    it('hands the closing overflow back to the page in frame-sized chunks', () => {
+      const closing = step(opened(), delta(config.breathingRoom + 1), config.openHoldMs + 1).state;
+      const { state, effects } = step(closing, delta(1000), config.openHoldMs + 2);
+
+      const overflow = 1000 - config.closeScrollDistance;
+      expect(state).toMatchObject({ phase: 'done', doneLatch: true, lidAngle: 0 });
+      expect(effects.scrollBy.reduce((sum, px) => sum + px, 0)).toBe(overflow);
+      expect(Math.max(...effects.scrollBy)).toBeLessThanOrEqual(config.releaseChunkPx);
+      expect(effects.video).toBe('pause');
+    });
+
+    it('amplifies touch swipes', () => {
+      const { state } = step(engaged(), delta(100, 'touch'));
+      expect(state.acc).toBe(125);
+    });
+  });
+
+  describe('native page movement while captured', () => {
+    it('follows the smooth scroll that engaged the lock', () => {
+      const engagedAt = step(INITIAL_SCROLL_LOCK_STATE, delta(100), 1000).state;
+      const { state, effects } = run(engagedAt, [scroll(-40), scroll(-90)], 1200);
+
+      expect(state.phase).toBe('opening');
+      expect(state.anchorTop).toBe(-90);
+      expect(effects.hold).toBeNull();
+    });
+
+    it('snaps to done on a scrollbar drag down once input has settled', () => {
+      const engagedAt = step(INITIAL_SCROLL_LOCK_STATE, delta(100), 1000).state;
+      const { state, effects } = step(engagedAt, scroll(-300), 3000);
+
+      expect(state).toMatchObject({ phase: 'done', doneLatch: true });
+      expect(effects.hold).toBe('clear');
+    });
+
+    it('snaps back to closed on a scrollbar drag up', () => {
+      const { state } = step(opened(), scroll(200), 3000);
+      expect(state).toEqual(INITIAL_SCROLL_LOCK_STATE);
+    });
+  });
+
+  describe('re-entry after done', () => {
+    const done = (): ScrollLockMachineState => {
+      const closing = step(opened(), delta(config.breathingRoom + 1), config.openHoldMs + 1).state;
+      return step(closing, delta(config.closeScrollDistance), config.openHoldMs + 2).state;
+    };
+
+    it('lets the page scroll freely once done', () => {
+      const { state, effects } = step(done(), delta(100));
+
+      expect(state.phase).toBe('done');
+      expect(effects.preventDefault).toBe(false);
+    });
+
+    it('stays done while the section is still near the viewport', () => {
+      const { state } = step(done(), scroll(500));
+      expect(state.phase).toBe('done');
+    });
+
+    it('re-arms once the section is far below the viewport', () => {
+      const reset = step(done(), scroll(960));
+      expect(reset.state).toEqual(INITIAL_SCROLL_LOCK_STATE);
+      expect(reset.effects.hold).toBe('clear');
+
+      const { state, effects } = step(reset.state, delta(10));
+      expect(state.phase).toBe('opening');
+      expect(effects.preventDefault).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,381 @@
+// scrollLockMachine.ts — Pure reducer for the MacBook lid phase machine
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCROLL LOCK MACHINE
+// locked → opening → open → closing → done, expressed as
+// (state, event, timestamp) → { state, effects }. No DOM access: the caller
+// measures the section, feeds events in and performs the returned effects.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+export type Phase = 'locked' | 'opening' | 'open' | 'closing' | 'done';
+
+export type InputSource = 'wheel' | 'touch' | 'keyboard';
+
+export interface ScrollLockConfig {
+  /** Lid angle (0–1 of the full swing) reached when fully open */
+  maxLidAngle: number;
+  /** Lid angle at which the screen video starts playing */
+  videoPlayThreshold: number;
+  /** Scroll px to go from closed to open, after the dead zone */
+  openScrollDistance: number;
+  /** Scroll px to go from open back to closed */
+  closeScrollDistance: number;
+  /** Scroll px swallowed before the lid starts moving */
+  deadZone: number;
+  /** Time the open state ignores further downward scroll */
+  openHoldMs: number;
+  /** Scroll px spent in the open state before closing begins */
+  breathingRoom: number;
+  /** Section top (fraction of vh) at which downward scroll engages the lock */
+  enterTriggerTop: number;
+  /** Section top (fraction of vh) at which the section counts as in control */
+  inViewTop: number;
+  /** Max px handed back to the page per frame once done */
+  releaseChunkPx: number;
+}
+
+export interface ScrollLockMachineState {
+  phase: Phase;
+  /** 0–1 progress of the opening gesture */
+  openProgress: number;
+  /** 0–maxLidAngle */
+  lidAngle: number;
+  /** Scroll px accumulated in the current phase */
+  acc: number;
+  /** Downward scroll swallowed past a phase cap, returned to the page when done */
+  overflowDown: number;
+  /** Timestamp until which the open state ignores downward scroll */
+  openHoldUntil: number;
+  /** Set once the sequence finished; cleared when the section is far below the viewport */
+  doneLatch: boolean;
+  /** Section top when the lock engaged; native scroll away from it is a scrollbar jump */
+  anchorTop: number;
+  /** Timestamp of the last captured input; the page may still be smooth-scrolling from it */
+  lastInputAt: number;
+}
+
+/** Section geometry measured by the caller at event time */
+export interface SectionMetrics {
+  sectionTop: number;
+  sectionHeight: number;
+  viewportHeight: number;
+}
+
+export type ScrollLockEvent =
+  | ({ type: 'delta'; deltaY: number; source: InputSource } & SectionMetrics)
+  | ({ type: 'jump'; to: 'start' | 'end' } & SectionMetrics)
+  | ({ type: 'scroll' } & SectionMetrics);
+
+export interface ScrollLockEffects {
+  /** The input event was consumed and must not scroll the page */
+  preventDefault: boolean;
+  /** Page scroll amounts to apply, one per animation frame */
+  scrollBy: number[];
+  /** Start (ms) or cancel the open-state hold indicator */
+  hold: number | 'clear' | null;
+  /** Screen video transition, when the lid crossed the play threshold */
+  video: 'play' | 'pause' | null;
+}
+
+export interface ScrollLockTransition {
+  state: ScrollLockMachineState;
+  effects: ScrollLockEffects;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+export const DEFAULT_SCROLL_LOCK_CONFIG: ScrollLockConfig = {
+  maxLidAngle: 0.92,
+  videoPlayThreshold: 0.32,
+  openScrollDistance: 450,
+  closeScrollDistance: 220,
+  deadZone: 110,
+  openHoldMs: 340,
+  breathingRoom: 520,
+  enterTriggerTop: 0.3,
+  inViewTop: 0.55,
+  releaseChunkPx: 140,
+};
+
+// Touch swipes are shorter than wheel travel, so they are amplified and need
+// less breathing room; reverse thresholds are tuned per input.
+export const INPUT_TUNING: Record<
+  InputSource,
+  { scale: number; breathingRoom: number; reopenFromOpen: number; reopenFromClosing: number }
+> = {
+  wheel: { scale: 1, breathingRoom: 1, reopenFromOpen: -60, reopenFromClosing: -40 },
+  touch: { scale: 1.25, breathingRoom: 0.8, reopenFromOpen: -55, reopenFromClosing: -40 },
+  keyboard: { scale: 1, breathingRoom: 1, reopenFromOpen: -60, reopenFromClosing: -40 },
+};
+
+// Section top beyond this fraction of vh resets the machine for re-entry
+const RESET_TOP = 0.95;
+
+// Reverse scroll out of closing re-arms a shorter hold
+const REOPEN_HOLD_FACTOR = 0.6;
+
+// Native page movement beyond this while captured means the scrollbar (or
+// another uncaptured input) moved the page
+const JUMP_TOLERANCE_PX = 24;
+
+// A wheel notch / arrow key / PageDown that engaged the lock may still be
+// smooth-scrolling the page this long after it; movement then re-anchors
+const SMOOTH_SCROLL_SETTLE_MS = 600;
+
+export const INITIAL_SCROLL_LOCK_STATE: ScrollLockMachineState = {
+  phase: 'locked',
+  openProgress: 0,
+  lidAngle: 0,
+  acc: 0,
+  overflowDown: 0,
+  openHoldUntil: 0,
+  doneLatch: false,
+  anchorTop: 0,
+  lastInputAt: -Infinity,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utility
+// ─────────────────────────────────────────────────────────────────────────────
+const clamp01 = (x: number): number => Math.max(0, Math.min(1, x));
+
+const noEffects = (): ScrollLockEffects => ({
+  preventDefault: false,
+  scrollBy: [],
+  hold: null,
+  video: null,
+});
+
+/** Splits a release distance into per-frame scroll steps */
+const chunk = (amount: number, size: number): number[] => {
+  const steps: number[] = [];
+  let left = amount;
+  while (left > 0) {
+    const step = Math.min(left, size);
+    steps.push(step);
+    left -= step;
+  }
+  return steps;
+};
+
+const isInControlZone = (
+  state: ScrollLockMachineState,
+  m: SectionMetrics,
+  config: ScrollLockConfig
+): boolean => {
+  if (state.phase === 'done') return false;
+  return (
+    m.sectionTop <= m.viewportHeight * config.inViewTop &&
+    m.sectionTop > -m.sectionHeight + m.viewportHeight
+  );
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Phase Steps
+// ─────────────────────────────────────────────────────────────────────────────
+function stepDelta(
+  s: ScrollLockMachineState,
+  deltaY: number,
+  source: InputSource,
+  m: SectionMetrics,
+  now: number,
+  c: ScrollLockConfig,
+  fx: ScrollLockEffects
+): ScrollLockMachineState {
+  const tuning = INPUT_TUNING[source];
+
+  // LOCKED: start only if entering and scrolling down
+  if (s.phase === 'locked') {
+    if (!s.doneLatch && m.sectionTop <= m.viewportHeight * c.enterTriggerTop && deltaY > 0) {
+      fx.preventDefault = true;
+      fx.hold = 'clear';
+      return { ...s, phase: 'opening', acc: 0, overflowDown: 0, anchorTop: m.sectionTop };
+    }
+    return s;
+  }
+
+  fx.preventDefault = true;
+
+  // OPENING
+  if (s.phase === 'opening') {
+    const next = s.acc + deltaY;
+    const cap = c.openScrollDistance + c.deadZone;
+    let acc: number;
+    let overflowDown = s.overflowDown;
+
+    if (next > cap) {
+      overflowDown += next - cap;
+      acc = cap;
+    } else {
+      acc = Math.max(0, next);
+    }
+
+    const p = clamp01(Math.max(0, acc - c.deadZone) / c.openScrollDistance);
+
+    if (p >= 1) {
+      fx.hold = c.openHoldMs;
+      return {
+        ...s,
+        phase: 'open',
+        openProgress: 1,
+        lidAngle: c.maxLidAngle,
+        acc: 0,
+        overflowDown,
+        openHoldUntil: now + c.openHoldMs,
+      };
+    }
+
+    if (acc <= 0 && deltaY < 0) {
+      fx.hold = 'clear';
+      return { ...s, phase: 'locked', openProgress: 0, lidAngle: 0, acc: 0, overflowDown: 0 };
+    }
+
+    return { ...s, openProgress: p, lidAngle: p * c.maxLidAngle, acc, overflowDown };
+  }
+
+  // OPEN
+  if (s.phase === 'open') {
+    if (deltaY > 0) {
+      if (now < s.openHoldUntil) {
+        return { ...s, overflowDown: s.overflowDown + deltaY };
+      }
+
+      const acc = s.acc + deltaY + s.overflowDown;
+      if (acc > c.breathingRoom * tuning.breathingRoom) {
+        fx.hold = 'clear';
+        return { ...s, phase: 'closing', acc: 0, overflowDown: 0 };
+      }
+      return { ...s, acc, overflowDown: 0 };
+    }
+
+    const acc = s.acc + deltaY;
+    if (acc < tuning.reopenFromOpen) {
+      return { ...s, phase: 'opening', acc: c.openScrollDistance + c.deadZone };
+    }
+    return { ...s, acc };
+  }
+
+  // CLOSING
+  if (s.phase === 'closing') {
+    if (deltaY > 0) {
+      const next = s.acc + deltaY;
+      const cap = c.closeScrollDistance;
+      let acc: number;
+      let overflowDown = s.overflowDown;
+
+      if (next > cap) {
+        overflowDown += next - cap;
+        acc = cap;
+      } else {
+        acc = Math.max(0, next);
+      }
+
+      const p = clamp01(acc / c.closeScrollDistance);
+
+      if (p >= 1) {
+        fx.hold = 'clear';
+        fx.scrollBy = chunk(overflowDown, c.releaseChunkPx);
+        return {
+          ...s,
+          phase: 'done',
+          openProgress: 0,
+          lidAngle: 0,
+          acc: 0,
+          overflowDown: 0,
+          doneLatch: true,
+        };
+      }
+      return { ...s, lidAngle: c.maxLidAngle * (1 - p), acc, overflowDown };
+    }
+
+    const acc = s.acc + deltaY;
+    if (acc < tuning.reopenFromClosing) {
+      const holdMs = Math.round(c.openHoldMs * REOPEN_HOLD_FACTOR);
+      fx.hold = holdMs;
+      return {
+        ...s,
+        phase: 'open',
+        openProgress: 1,
+        lidAngle: c.maxLidAngle,
+        acc: 0,
+        openHoldUntil: now + holdMs,
+      };
+    }
+    return { ...s, acc };
+  }
+
+  return s;
+}
+
+const isCaptured = (phase: Phase): boolean =>
+  phase === 'opening' || phase === 'open' || phase === 'closing';
+
+/** Leave a captured phase without animating: back to closed above, or finished below */
+function snap(
+  s: ScrollLockMachineState,
+  to: 'start' | 'end',
+  fx: ScrollLockEffects
+): ScrollLockMachineState {
+  fx.hold = 'clear';
+  if (to === 'start') return { ...INITIAL_SCROLL_LOCK_STATE };
+  return { ...INITIAL_SCROLL_LOCK_STATE, phase: 'done', doneLatch: true };
+}
+
+function stepScroll(
+  s: ScrollLockMachineState,
+  m: SectionMetrics,
+  now: number,
+  fx: ScrollLockEffects
+): ScrollLockMachineState {
+  // Reset when scrolled far above the section, re-arming entry after done
+  if (m.sectionTop > m.viewportHeight * RESET_TOP) {
+    if (s.phase !== 'locked') {
+      fx.hold = 'clear';
+      return { ...INITIAL_SCROLL_LOCK_STATE };
+    }
+    return s.doneLatch ? { ...s, doneLatch: false } : s;
+  }
+
+  // Captured input never moves the page, so movement is either the tail of the
+  // smooth scroll that engaged the lock (follow it) or a scrollbar drag (snap)
+  if (isCaptured(s.phase) && Math.abs(m.sectionTop - s.anchorTop) > JUMP_TOLERANCE_PX) {
+    if (now - s.lastInputAt < SMOOTH_SCROLL_SETTLE_MS) return { ...s, anchorTop: m.sectionTop };
+    return snap(s, m.sectionTop > s.anchorTop ? 'start' : 'end', fx);
+  }
+
+  return s;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reducer
+// ─────────────────────────────────────────────────────────────────────────────
+export function scrollLockReducer(
+  state: ScrollLockMachineState,
+  event: ScrollLockEvent,
+  now: number,
+  config: ScrollLockConfig = DEFAULT_SCROLL_LOCK_CONFIG
+): ScrollLockTransition {
+  const effects = noEffects();
+  let next = state;
+
+  if (event.type === 'scroll') {
+    next = stepScroll(state, event, now, effects);
+  } else if (event.type === 'jump') {
+    // Home / End: let the page jump natively and settle the lid to match
+    if (isCaptured(state.phase)) next = snap(state, event.to, effects);
+  } else if (isInControlZone(state, event, config)) {
+    const deltaY = event.deltaY * INPUT_TUNING[event.source].scale;
+    next = stepDelta(state, deltaY, event.source, event, now, config, effects);
+    if (effects.preventDefault) next = { ...next, lastInputAt: now };
+  }
+
+  const wasPlaying = state.lidAngle >= config.videoPlayThreshold;
+  const isPlaying = next.lidAngle >= config.videoPlayThreshold;
+  if (wasPlaying !== isPlaying) effects.video = isPlaying ? 'play' : 'pause';
+
+  return { state: next, effects };
+}
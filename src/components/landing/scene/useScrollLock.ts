@@ -0,0 +1,264 @@
+// useScrollLock.ts — Reusable scroll-lock phase machine for pinned scroll scenes
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+
+import {
+  DEFAULT_SCROLL_LOCK_CONFIG,
+  INITIAL_SCROLL_LOCK_STATE,
+  scrollLockReducer,
+} from './scrollLockMachine';
+import type {
+  Phase,
+  ScrollLockConfig,
+  ScrollLockEffects,
+  ScrollLockEvent,
+  ScrollLockMachineState,
+  SectionMetrics,
+} from './scrollLockMachine';
+
+export { DEFAULT_SCROLL_LOCK_CONFIG };
+export type { Phase, ScrollLockConfig };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCROLL LOCK
+// Captures wheel / touch / keyboard while a section is pinned and feeds it
+// through the pure scrollLockReducer, then performs the effects it returns.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+export interface ScrollLockState {
+  phase: Phase;
+  /** 0–1 progress of the opening gesture */
+  openProgress: number;
+  /** 0–maxLidAngle, eased by the scene */
+  lidAngle: number;
+  /** True while the open state is ignoring downward scroll */
+  holdActive: boolean;
+  /** True while the lid is open far enough for the screen video to play */
+  shouldPlay: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Keyboard
+// ─────────────────────────────────────────────────────────────────────────────
+const ARROW_STEP_PX = 100;
+// Browsers page by roughly this fraction of the viewport
+const PAGE_STEP = 0.875;
+
+/** Scroll distance a key would natively produce, or null if it doesn't scroll */
+const keyToDelta = (e: KeyboardEvent, viewportHeight: number): number | null => {
+  switch (e.key) {
+    case 'ArrowDown':
+      return ARROW_STEP_PX;
+    case 'ArrowUp':
+      return -ARROW_STEP_PX;
+    case 'PageDown':
+      return viewportHeight * PAGE_STEP;
+    case 'PageUp':
+      return -viewportHeight * PAGE_STEP;
+    case ' ':
+      return (e.shiftKey ? -1 : 1) * viewportHeight * PAGE_STEP;
+    default:
+      return null;
+  }
+};
+
+// Keys typed into fields or activating controls are not scroll intents
+const isInteractiveTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  return ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON', 'A'].includes(target.tagName);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Hook
+// ─────────────────────────────────────────────────────────────────────────────
+export function useScrollLock(
+  sectionRef: RefObject<HTMLElement | null>,
+  config: Partial<ScrollLockConfig> = {},
+  enabled = true
+): ScrollLockState {
+  const configRef = useRef<ScrollLockConfig>({ ...DEFAULT_SCROLL_LOCK_CONFIG, ...config });
+
+  useEffect(() => {
+    configRef.current = { ...DEFAULT_SCROLL_LOCK_CONFIG, ...config };
+  });
+
+  // Machine state lives in a ref so back-to-back events see each other;
+  // the rendered copy is mirrored into React state.
+  const machineRef = useRef<ScrollLockMachineState>(INITIAL_SCROLL_LOCK_STATE);
+  const [machine, setMachine] = useState<ScrollLockMachineState>(INITIAL_SCROLL_LOCK_STATE);
+  const [holdActive, setHoldActive] = useState(false);
+  const [shouldPlay, setShouldPlay] = useState(false);
+
+  const holdTimerRef = useRef<number | null>(null);
+  const releaseRafRef = useRef<number | null>(null);
+
+  // Cleanup timers on unmount
+  useEffect(() => {
+    return () => {
+      if (holdTimerRef.current !== null) window.clearTimeout(holdTimerRef.current);
+      if (releaseRafRef.current !== null) cancelAnimationFrame(releaseRafRef.current);
+    };
+  }, []);
+
+  // Effect runner
+  const runEffects = useCallback((effects: ScrollLockEffects) => {
+    if (effects.hold !== null) {
+      if (holdTimerRef.current !== null) {
+        window.clearTimeout(holdTimerRef.current);
+        holdTimerRef.current = null;
+      }
+      if (effects.hold === 'clear') {
+        setHoldActive(false);
+      } else {
+        setHoldActive(true);
+        holdTimerRef.current = window.setTimeout(() => {
+          setHoldActive(false);
+          holdTimerRef.current = null;
+        }, effects.hold);
+      }
+    }
+
+    if (effects.video !== null) {
+      setShouldPlay(effects.video === 'play');
+    }
+
+    // Hand swallowed scroll back to the page, one chunk per frame
+    if (effects.scrollBy.length > 0) {
+      const steps = [...effects.scrollBy];
+      const next = () => {
+        const step = steps.shift();
+        if (step === undefined) {
+          releaseRafRef.current = null;
+          return;
+        }
+        window.scrollBy({ top: step, left: 0, behavior: 'auto' });
+        releaseRafRef.current = requestAnimationFrame(next);
+      };
+      releaseRafRef.current = requestAnimationFrame(next);
+    }
+  }, []);
+
+  const dispatch = useCallback(
+    (event: ScrollLockEvent): ScrollLockEffects => {
+      const { state, effects } = scrollLockReducer(
+        machineRef.current,
+        event,
+        performance.now(),
+        configRef.current
+      );
+
+      if (state !== machineRef.current) {
+        machineRef.current = state;
+        setMachine(state);
+      }
+      runEffects(effects);
+      return effects;
+    },
+    [runEffects]
+  );
+
+  const measure = useCallback((): SectionMetrics | null => {
+    const el = sectionRef.current;
+    if (!el) return null;
+
+    const rect = el.getBoundingClientRect();
+    return { sectionTop: rect.top, sectionHeight: rect.height, viewportHeight: window.innerHeight };
+  }, [sectionRef]);
+
+  // Wheel / touch capture
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      const metrics = measure();
+      if (!metrics) return;
+      if (dispatch({ type: 'delta', deltaY: e.deltaY, source: 'wheel', ...metrics }).preventDefault) {
+        e.preventDefault();
+      }
+    };
+
+    let touchStartY = 0;
+
+    const handleTouchStart = (e: TouchEvent) => {
+      touchStartY = e.touches[0].clientY;
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      const metrics = measure();
+      if (!metrics) return;
+
+      const currentY = e.touches[0].clientY;
+      const deltaY = touchStartY - currentY;
+      touchStartY = currentY;
+
+      if (dispatch({ type: 'delta', deltaY, source: 'touch', ...metrics }).preventDefault) {
+        e.preventDefault();
+      }
+    };
+
+    window.addEventListener('wheel', handleWheel, { passive: false });
+    window.addEventListener('touchstart', handleTouchStart, { passive: true });
+    window.addEventListener('touchmove', handleTouchMove, { passive: false });
+
+    return () => {
+      window.removeEventListener('wheel', handleWheel);
+      window.removeEventListener('touchstart', handleTouchStart);
+      window.removeEventListener('touchmove', handleTouchMove);
+    };
+  }, [enabled, dispatch, measure]);
+
+  // Keyboard scroll intents
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey) return;
+      if (isInteractiveTarget(e.target)) return;
+
+      const metrics = measure();
+      if (!metrics) return;
+
+      if (e.key === 'Home' || e.key === 'End') {
+        dispatch({ type: 'jump', to: e.key === 'Home' ? 'start' : 'end', ...metrics });
+        return;
+      }
+
+      const deltaY = keyToDelta(e, metrics.viewportHeight);
+      if (deltaY === null) return;
+
+      if (dispatch({ type: 'delta', deltaY, source: 'keyboard', ...metrics }).preventDefault) {
+        e.preventDefault();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, dispatch, measure]);
+
+  // Reset when scrolled far above section, snap on scrollbar jumps
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleScroll = () => {
+      const metrics = measure();
+      if (metrics) dispatch({ type: 'scroll', ...metrics });
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [enabled, dispatch, measure]);
+
+  return {
+    phase: machine.phase,
+    openProgress: machine.openProgress,
+    lidAngle: machine.lidAngle,
+    holdActive,
+    shouldPlay,
+  };
+}
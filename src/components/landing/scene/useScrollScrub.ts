@@ -0,0 +1,107 @@
+// useScrollScrub.ts — Scroll-linked lid progress without capturing input
+'use client';
+
+import { useState } from 'react';
+import type { RefObject } from 'react';
+import { useMotionValueEvent, useScroll } from 'framer-motion';
+
+import { DEFAULT_SCROLL_LOCK_CONFIG } from './scrollLockMachine';
+import type { Phase, ScrollLockConfig } from './scrollLockMachine';
+import type { ScrollLockState } from './useScrollLock';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCROLL SCRUB
+// Alternative to useScrollLock: the section is tall, its content is sticky and
+// the native scroll position through it is mapped onto the same phases.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+// Scroll progress (0–1 through the section) at which each phase ends
+const SCRUB_SEGMENTS = {
+  /** Lid stays closed while the section settles into place */
+  locked: 0.12,
+  /** Lid swings open */
+  opening: 0.45,
+  /** Lid held fully open */
+  open: 0.72,
+  /** Lid closes; the remainder is 'done' */
+  closing: 0.9,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Utility
+// ─────────────────────────────────────────────────────────────────────────────
+const clamp01 = (x: number): number => Math.max(0, Math.min(1, x));
+
+const segmentProgress = (p: number, start: number, end: number): number =>
+  clamp01((p - start) / (end - start));
+
+interface ScrubFrame {
+  phase: Phase;
+  openProgress: number;
+  lidAngle: number;
+}
+
+const CLOSED_FRAME: ScrubFrame = { phase: 'locked', openProgress: 0, lidAngle: 0 };
+
+const frameAt = (p: number, maxLidAngle: number): ScrubFrame => {
+  if (p < SCRUB_SEGMENTS.locked) return CLOSED_FRAME;
+
+  if (p < SCRUB_SEGMENTS.opening) {
+    const t = segmentProgress(p, SCRUB_SEGMENTS.locked, SCRUB_SEGMENTS.opening);
+    return { phase: 'opening', openProgress: t, lidAngle: t * maxLidAngle };
+  }
+
+  if (p < SCRUB_SEGMENTS.open) {
+    return { phase: 'open', openProgress: 1, lidAngle: maxLidAngle };
+  }
+
+  if (p < SCRUB_SEGMENTS.closing) {
+    const t = segmentProgress(p, SCRUB_SEGMENTS.open, SCRUB_SEGMENTS.closing);
+    return { phase: 'closing', openProgress: 1, lidAngle: maxLidAngle * (1 - t) };
+  }
+
+  return { phase: 'done', openProgress: 0, lidAngle: 0 };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Hook
+// ─────────────────────────────────────────────────────────────────────────────
+export function useScrollScrub(
+  sectionRef: RefObject<HTMLElement | null>,
+  config: Partial<ScrollLockConfig> = {},
+  enabled = true
+): ScrollLockState {
+  const maxLidAngle = config.maxLidAngle ?? DEFAULT_SCROLL_LOCK_CONFIG.maxLidAngle;
+  const videoPlayThreshold = config.videoPlayThreshold ?? DEFAULT_SCROLL_LOCK_CONFIG.videoPlayThreshold;
+
+  const { scrollYProgress } = useScroll({
+    target: sectionRef,
+    offset: ['start start', 'end end'],
+  });
+
+  const [frame, setFrame] = useState<ScrubFrame>(CLOSED_FRAME);
+
+  // Disabled: no per-scroll work or re-renders, and the lid reads as closed
+  useMotionValueEvent(scrollYProgress, 'change', (p) => {
+    if (!enabled) return;
+    const next = frameAt(p, maxLidAngle);
+    setFrame((prev) =>
+      prev.phase === next.phase &&
+      prev.openProgress === next.openProgress &&
+      prev.lidAngle === next.lidAngle
+        ? prev
+        : next
+    );
+  });
+
+  const current = enabled ? frame : CLOSED_FRAME;
+
+  return {
+    ...current,
+    holdActive: false,
+    shouldPlay: current.lidAngle >= videoPlayThreshold,
+  };
+}
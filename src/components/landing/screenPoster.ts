@@ -0,0 +1,117 @@
+// screenPoster.ts — Poster texture layered over a device screen mesh
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCREEN POSTER
+// A transparent copy of the screen mesh carrying a still image. It sits on
+// top of the video texture and fades out once the video has real frames, so
+// a device screen is never a black rectangle while the video buffers, errors
+// or is intentionally skipped.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+/** Crossfade speed (per second, exponential) */
+const FADE_RATE = 4;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+interface ScreenPosterOptions {
+  /** Still image URL; no overlay is created without one */
+  src?: string;
+  /** Target state: true shows the poster, false fades it out */
+  visible: boolean;
+  /** Changes when the model reloads, so the overlay is rebuilt on the new mesh */
+  scene: THREE.Object3D;
+  /** Adjust repeat / offset once the image size is known (e.g. letterboxing) */
+  fit?: (texture: THREE.Texture) => void;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Hook
+// ─────────────────────────────────────────────────────────────────────────────
+/** Call after the effect that locates the screen mesh, so the ref is populated. */
+export function useScreenPoster(
+  screenRef: RefObject<THREE.Mesh | null>,
+  { src, visible, scene, fit }: ScreenPosterOptions
+): void {
+  const overlayRef = useRef<THREE.Mesh | null>(null);
+  const fitRef = useRef(fit);
+
+  useEffect(() => {
+    fitRef.current = fit;
+  }, [fit]);
+
+  useEffect(() => {
+    const screen = screenRef.current;
+    if (!src || !screen) return;
+
+    // Clone the screen material so the poster is lit exactly like the video
+    const material = (screen.material as THREE.MeshStandardMaterial).clone();
+    material.transparent = true;
+    material.opacity = 1;
+    material.depthWrite = false;
+    material.polygonOffset = true;
+    material.polygonOffsetFactor = -1;
+    material.polygonOffsetUnits = -1;
+    material.metalness = 0;
+    material.envMapIntensity = 0;
+
+    const overlay = new THREE.Mesh(screen.geometry, material);
+    overlay.renderOrder = screen.renderOrder + 1;
+    overlay.visible = false; // Until the image has loaded
+    screen.add(overlay);
+    overlayRef.current = overlay;
+
+    let texture: THREE.Texture | null = null;
+    let disposed = false;
+
+    new THREE.TextureLoader().load(
+      src,
+      (tex) => {
+        if (disposed) {
+          tex.dispose();
+          return;
+        }
+        tex.colorSpace = THREE.SRGBColorSpace;
+        fitRef.current?.(tex);
+        texture = tex;
+
+        material.map = tex;
+        if (material.emissiveMap) material.emissiveMap = tex;
+        material.needsUpdate = true;
+        overlay.userData.loaded = true;
+      },
+      undefined,
+      (error) => {
+        // The overlay never shows, so the video texture underneath carries the screen
+        if (!disposed) console.warn('Screen poster:', error);
+      }
+    );
+
+    return () => {
+      disposed = true;
+      screen.remove(overlay);
+      material.dispose();
+      texture?.dispose();
+      overlayRef.current = null;
+    };
+  }, [screenRef, src, scene]);
+
+  useFrame((_, delta) => {
+    const overlay = overlayRef.current;
+    if (!overlay?.userData.loaded) return;
+
+    const material = overlay.material as THREE.MeshStandardMaterial;
+    const target = visible ? 1 : 0;
+    material.opacity += (target - material.opacity) * Math.min(1, delta * FADE_RATE);
+    overlay.visible = material.opacity > 0.01;
+  });
+}
@@ -198,13 +198,3 @@ export const TikTokMark = memo(function TikTokMark({ size = 56, className }: Log
     </svg>
   );
 });
-
-export const LOGO_COMPONENTS = {
-  google: GoogleMark,
-  apple: AppleMark,
-  meta: MetaMark,
-  microsoft: MicrosoftMark,
-  tesla: TeslaMark,
-  amazon: AmazonMark,
-  tiktok: TikTokMark,
-} as const;
\ No newline at end of file
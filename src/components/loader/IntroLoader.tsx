@@ -0,0 +1,421 @@
+// IntroLoader.tsx — Brand marks fly in and dissolve into "Datafluent•"
+'use client';
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+
+import { getLogo } from '@/components/loader/logoRegistry';
+import { markIntroSeen, preloadIntroAssets } from '@/components/loader/introAssets';
+import {
+  FINAL_GRADIENT,
+  LOGO_CONFIGS,
+  LogoDirection,
+  generateRandomPosition,
+} from '@/lib/brandColors';
+import { useDeviceCapabilities } from '@/lib/deviceCapabilities';
+import type { VideoSource } from '@/lib/videoRenditions';
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+/** "Datafluent" letters plus the trailing dot (index 10 in LOGO_LETTER_TARGETS). */
+const WORD = 'Datafluent';
+const DOT_INDEX = WORD.length;
+
+const TIMING = {
+  stagger: 320,
+  enter: 700,
+  hover: 380,
+  merge: 520,
+  settle: 380,
+  gradient: 900,
+  exit: 600,
+};
+
+const LOGO_SIZE = 56;
+
+type LogoStage = 'waiting' | 'entering' | 'merging' | 'merged';
+type LoaderPhase = 'logos' | 'gradient' | 'holding';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface StageLayout {
+  viewport: { width: number; height: number };
+  letterCenters: Point[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Off-screen start point for each entrance direction, relative to the stage center. */
+const getEntranceOffset = (direction: LogoDirection, width: number, height: number): Point => {
+  const outX = width * 0.6 + LOGO_SIZE;
+  const outY = height * 0.6 + LOGO_SIZE;
+  switch (direction) {
+    case 'top':
+      return { x: 0, y: -outY };
+    case 'left':
+      return { x: -outX, y: 0 };
+    case 'right':
+      return { x: outX, y: 0 };
+    case 'bottom-left':
+      return { x: -outX, y: outY };
+    case 'bottom-right':
+      return { x: outX, y: outY };
+    default:
+      return { x: 0, y: outY };
+  }
+};
+
+/** Spawn zones are percentages of the half-viewport around the wordmark. */
+const toSpawnPoint = (width: number, height: number): Point => {
+  const { x, y } = generateRandomPosition();
+  return { x: (x / 100) * (width / 2), y: (y / 100) * (height / 2) };
+};
+
+const centroid = (points: Point[]): Point => {
+  if (points.length === 0) return { x: 0, y: 0 };
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+interface IntroLoaderProps {
+  /** Device class used to pick which model and video to preload; null while detecting. */
+  isMobile: boolean | null;
+  /**
+   * What the device section plays (its videoSrc, or its videoRenditions), so the
+   * gate warms the element the section reuses; renditions go through selectRendition.
+   */
+  videoSrc?: VideoSource;
+  /** Called once the wordmark has resolved, assets are ready and the loader has faded out. */
+  onComplete: () => void;
+}
+
+export function IntroLoader({ isMobile, videoSrc, onComplete }: IntroLoaderProps) {
+  const stageRef = useRef<HTMLDivElement>(null);
+  const letterRefs = useRef<(HTMLSpanElement | null)[]>([]);
+  const onCompleteRef = useRef(onComplete);
+  const { detected, prefersReducedMotion, saveData } = useDeviceCapabilities();
+
+  const [layout, setLayout] = useState<StageLayout | null>(null);
+  const [spawns, setSpawns] = useState<Point[]>([]);
+  const [stages, setStages] = useState<LogoStage[]>(() => LOGO_CONFIGS.map(() => 'waiting'));
+  const [letterColors, setLetterColors] = useState<Record<number, string>>({});
+  const [phase, setPhase] = useState<LoaderPhase>('logos');
+  const [assetsReady, setAssetsReady] = useState(false);
+  const [skipped, setSkipped] = useState(false);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  // Asset gate: hero chunk and demo video (the device model starts loading too)
+  useEffect(() => {
+    if (isMobile === null) return;
+
+    let cancelled = false;
+    // The device sections show a poster instead of video for these visitors
+    const skipVideo = saveData || prefersReducedMotion;
+
+    preloadIntroAssets({ isMobile, videoSrc, skipVideo }).then(() => {
+      if (!cancelled) setAssetsReady(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isMobile, videoSrc, saveData, prefersReducedMotion]);
+
+  const skip = useCallback(() => setSkipped(true), []);
+
+  // Keyboard skip: Escape anywhere; Enter / Space only activate the focused skip button
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        skip();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [skip]);
+
+  // Measure letter centers relative to the stage center
+  const measure = useCallback(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+
+    const stageRect = stage.getBoundingClientRect();
+    const cx = stageRect.left + stageRect.width / 2;
+    const cy = stageRect.top + stageRect.height / 2;
+
+    const letterCenters = letterRefs.current.map((el) => {
+      if (!el) return { x: 0, y: 0 };
+      const r = el.getBoundingClientRect();
+      return { x: r.left + r.width / 2 - cx, y: r.top + r.height / 2 - cy };
+    });
+
+    setLayout({
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      letterCenters,
+    });
+  }, []);
+
+  useLayoutEffect(() => {
+    measure();
+
+    let timeout: NodeJS.Timeout | null = null;
+    const handleResize = () => {
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(measure, 100);
+    };
+
+    window.addEventListener('resize', handleResize, { passive: true });
+    return () => {
+      if (timeout) clearTimeout(timeout);
+      window.removeEventListener('resize', handleResize);
+    };
+  }, [measure]);
+
+  const layoutReady = layout !== null;
+
+  // Timeline: logos enter → hover → merge into letters → gradient → hold for assets
+  useEffect(() => {
+    if (!layoutReady || !detected) return;
+
+    const timers: NodeJS.Timeout[] = [];
+    const at = (ms: number, fn: () => void) => timers.push(setTimeout(fn, ms));
+
+    const setStage = (index: number, stage: LogoStage) =>
+      setStages((prev) => prev.map((s, i) => (i === index ? stage : s)));
+
+    if (prefersReducedMotion) {
+      at(0, () => setPhase('gradient'));
+      at(TIMING.gradient, () => setPhase('holding'));
+      return () => timers.forEach(clearTimeout);
+    }
+
+    at(0, () =>
+      setSpawns(LOGO_CONFIGS.map(() => toSpawnPoint(window.innerWidth, window.innerHeight)))
+    );
+
+    LOGO_CONFIGS.forEach((config, i) => {
+      const enterAt = i * TIMING.stagger;
+      const mergeAt = enterAt + TIMING.enter + TIMING.hover;
+
+      at(enterAt, () => setStage(i, 'entering'));
+      at(mergeAt, () => setStage(i, 'merging'));
+      at(mergeAt + TIMING.merge, () => {
+        setStage(i, 'merged');
+        setLetterColors((prev) => {
+          const next = { ...prev };
+          const { colors } = getLogo(config.name);
+          config.targets.forEach((letter, j) => {
+            next[letter] = colors[j % colors.length];
+          });
+          return next;
+        });
+      });
+    });
+
+    const lastMerged =
+      (LOGO_CONFIGS.length - 1) * TIMING.stagger + TIMING.enter + TIMING.hover + TIMING.merge;
+    const gradientAt = lastMerged + TIMING.settle;
+
+    at(gradientAt, () => setPhase('gradient'));
+    at(gradientAt + TIMING.gradient, () => setPhase('holding'));
+
+    return () => timers.forEach(clearTimeout);
+  }, [layoutReady, detected, prefersReducedMotion]);
+
+  // Exit once the animation has played out and assets are in — or on skip
+  const exiting = skipped || (phase === 'holding' && assetsReady);
+
+  useEffect(() => {
+    if (!exiting) return;
+
+    const timer = setTimeout(() => {
+      markIntroSeen();
+      onCompleteRef.current();
+    }, TIMING.exit);
+
+    return () => clearTimeout(timer);
+  }, [exiting]);
+
+  const showGradient = phase !== 'logos';
+  const waitingOnAssets = phase === 'holding' && !assetsReady && !skipped;
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-[#050508] overflow-hidden"
+      role="status"
+      aria-live="polite"
+      aria-label="Loading Datafluent"
+      initial={{ opacity: 1 }}
+      animate={{ opacity: exiting ? 0 : 1 }}
+      transition={{ duration: TIMING.exit / 1000, ease: 'easeInOut' }}
+    >
+      <div ref={stageRef} className="relative">
+        {/* Wordmark */}
+        <h1
+          className="relative inline-flex items-start text-5xl md:text-7xl select-none"
+          aria-hidden="true"
+        >
+          {WORD.split('').map((char, i) => (
+            <Letter
+              key={i}
+              ref={(el) => {
+                letterRefs.current[i] = el;
+              }}
+              char={char}
+              color={letterColors[i]}
+              dimmed={showGradient}
+            />
+          ))}
+          <Letter
+            ref={(el) => {
+              letterRefs.current[DOT_INDEX] = el;
+            }}
+            char="•"
+            color={letterColors[DOT_INDEX]}
+            dimmed={showGradient}
+          />
+
+          {/* Final gradient wash */}
+          <motion.span
+            className="datafluent-letter-fill whitespace-nowrap"
+            style={{ backgroundImage: FINAL_GRADIENT }}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: !showGradient ? 0 : waitingOnAssets ? [1, 0.55, 1] : 1 }}
+            transition={
+              waitingOnAssets
+                ? { duration: 1.6, repeat: Infinity, ease: 'easeInOut' }
+                : { duration: 0.6, ease: 'easeOut' }
+            }
+          >
+            {WORD}•
+          </motion.span>
+        </h1>
+
+        {/* Brand marks */}
+        {layout &&
+          spawns.length === LOGO_CONFIGS.length &&
+          LOGO_CONFIGS.map((config, i) => (
+            <FlyingLogo
+              key={config.name}
+              name={config.name}
+              stage={stages[i]}
+              from={getEntranceOffset(
+                config.entranceDirection,
+                layout.viewport.width,
+                layout.viewport.height
+              )}
+              spawn={spawns[i]}
+              target={centroid(config.targets.map((t) => layout.letterCenters[t]))}
+            />
+          ))}
+      </div>
+
+      {/* Skip control */}
+      <motion.button
+        type="button"
+        onClick={skip}
+        disabled={exiting}
+        className="absolute bottom-8 right-8 px-4 py-2 text-sm text-white/50 hover:text-white/80
+                   bg-white/5 hover:bg-white/10 rounded-full border border-white/10 transition-colors
+                   focus-visible:outline focus-visible:outline-2 focus-visible:outline-white/40"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: exiting ? 0 : 1 }}
+        transition={{ delay: exiting ? 0 : 0.8, duration: 0.4 }}
+        aria-label="Skip intro (Esc)"
+      >
+        Skip intro
+      </motion.button>
+    </motion.div>
+  );
+}
+
+// ============================================================================
+// LETTER
+// ============================================================================
+
+interface LetterProps {
+  ref: (el: HTMLSpanElement | null) => void;
+  char: string;
+  color?: string;
+  dimmed: boolean;
+}
+
+const Letter = ({ ref, char, color, dimmed }: LetterProps) => (
+  <span ref={ref} className="relative inline-block">
+    <span className="datafluent-letter-base">{char}</span>
+    <motion.span
+      className="datafluent-letter-fill"
+      style={{ backgroundColor: color ?? 'transparent' }}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: color && !dimmed ? 1 : 0 }}
+      transition={{ duration: 0.35, ease: 'easeOut' }}
+    >
+      {char}
+    </motion.span>
+  </span>
+);
+
+// ============================================================================
+// FLYING LOGO
+// ============================================================================
+
+interface FlyingLogoProps {
+  /** Logo registry id */
+  name: string;
+  stage: LogoStage;
+  from: Point;
+  spawn: Point;
+  target: Point;
+}
+
+const FlyingLogo = ({ name, stage, from, spawn, target }: FlyingLogoProps) => {
+  const Logo = getLogo(name).component;
+
+  const animate = (() => {
+    switch (stage) {
+      case 'entering':
+        return { x: spawn.x, y: spawn.y, scale: 1, opacity: 1, filter: 'blur(0px)' };
+      case 'merging':
+      case 'merged':
+        return { x: target.x, y: target.y, scale: 0.25, opacity: 0, filter: 'blur(6px)' };
+      default:
+        return { x: from.x, y: from.y, scale: 0.6, opacity: 0, filter: 'blur(0px)' };
+    }
+  })();
+
+  const duration = stage === 'entering' ? TIMING.enter : TIMING.merge;
+
+  return (
+    <motion.div
+      className="absolute left-1/2 top-1/2 pointer-events-none"
+      style={{ translateX: '-50%', translateY: '-50%' }}
+      initial={{ x: from.x, y: from.y, scale: 0.6, opacity: 0 }}
+      animate={animate}
+      transition={{
+        duration: duration / 1000,
+        ease: stage === 'entering' ? [0.22, 1, 0.36, 1] : [0.55, 0, 0.75, 0.2],
+      }}
+      aria-hidden="true"
+    >
+      <Logo size={LOGO_SIZE} />
+    </motion.div>
+  );
+};
+
+export default IntroLoader;
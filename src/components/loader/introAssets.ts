@@ -0,0 +1,103 @@
+// introAssets.ts — Preloads what the first screen needs before the loader exits
+
+import type { VideoSource } from '@/lib/videoRenditions';
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+/** Shared by the intro gate and the device sections, so both use one video element */
+export const DEMO_VIDEO_SRC = '/demo-video.mp4';
+
+/** Never hold the loader longer than this, even if an asset stalls. */
+const MAX_WAIT_MS = 9000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const waitForVideo = (video: HTMLVideoElement): Promise<void> =>
+  new Promise((resolve) => {
+    if (video.readyState >= HTMLMediaElement.HAVE_ENOUGH_DATA) {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      video.removeEventListener('canplaythrough', done);
+      video.removeEventListener('error', done);
+      resolve();
+    };
+
+    video.addEventListener('canplaythrough', done);
+    video.addEventListener('error', done);
+  });
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+interface IntroAssetOptions {
+  isMobile: boolean;
+  /** Must match what the device section plays so the preloaded element is reused */
+  videoSrc?: VideoSource;
+  /** Don't fetch the demo video (the sections will show their poster) */
+  skipVideo?: boolean;
+}
+
+/**
+ * Resolves once the hero chunk and the demo video are ready. The device model is
+ * only kicked off here: it goes through the shared GLTF cache, which exposes no
+ * promise, and the section shows its proxy and progress while it finishes.
+ * Failures are swallowed (the page has its own fallbacks) and the whole wait is
+ * capped at MAX_WAIT_MS so a slow network never traps visitors in the loader.
+ */
+export function preloadIntroAssets({
+  isMobile,
+  videoSrc = DEMO_VIDEO_SRC,
+  skipVideo = false,
+}: IntroAssetOptions): Promise<void> {
+  const heroChunk = import('@/components/landing/LiquidGlassHero');
+
+  const loadVideo = () =>
+    isMobile
+      ? import('@/components/landing/MobileDeviceSection').then((mod) =>
+          waitForVideo(mod.preloadMobileVideo(videoSrc))
+        )
+      : import('@/components/landing/MacBookSection').then((mod) =>
+          waitForVideo(mod.preloadVideo(videoSrc))
+        );
+
+  const video = skipVideo ? Promise.resolve() : loadVideo();
+
+  const model = import('@/components/landing/modelAssets').then((mod) =>
+    mod.preloadModel(isMobile ? mod.IPHONE_MODEL : mod.MAC_MODEL)
+  );
+
+  const all = Promise.allSettled([heroChunk, video, model]).then(() => undefined);
+  const cap = new Promise<void>((resolve) => setTimeout(resolve, MAX_WAIT_MS));
+
+  return Promise.race([all, cap]);
+}
+
+// ============================================================================
+// SESSION MEMORY
+// ============================================================================
+
+const SESSION_KEY = 'datafluent:intro-seen';
+
+export function hasSeenIntro(): boolean {
+  try {
+    return window.sessionStorage.getItem(SESSION_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+export function markIntroSeen(): void {
+  try {
+    window.sessionStorage.setItem(SESSION_KEY, '1');
+  } catch {
+    /* Storage unavailable (private mode) — the intro simply replays */
+  }
+}
@@ -0,0 +1,158 @@
+// logoRegistry.ts — Single source for employer logos (mark, palette, tuning, name)
+
+import type { ComponentType } from 'react';
+
+import {
+  AmazonMark,
+  AppleMark,
+  GoogleMark,
+  MetaMark,
+  MicrosoftMark,
+  TeslaMark,
+  TikTokMark,
+} from '@/components/loader/FaangLogos';
+import type { LogoProps } from '@/components/loader/FaangLogos';
+import { createSvgLogo } from '@/components/loader/svgLogo';
+import type { SvgLogoSource } from '@/components/loader/svgLogo';
+import { SVG_LOGOS } from '@/components/loader/svgLogos.generated';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Size multiplier + nudge so marks look optically equal inside an orb / strip */
+export interface LogoTuning {
+  mult: number;
+  translateX?: number;
+  translateY?: number;
+}
+
+export interface LogoDefinition {
+  /** Registry key, e.g. 'google' */
+  id: string;
+  /** Accessible name, e.g. 'Google' */
+  name: string;
+  component: ComponentType<LogoProps>;
+  /** Brand palette; the loader paints letters with it in order */
+  colors: readonly string[];
+  /** Ring / glow color (default: colors[0]) */
+  accent?: string;
+  /** Manual optical correction; omit on SVG-ingested logos to have it measured */
+  tuning?: LogoTuning;
+  /** Set for logos generated from src/assets/logos */
+  source?: SvgLogoSource;
+}
+
+/** A definition with its accent resolved */
+export type ResolvedLogo = LogoDefinition & { accent: string };
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const registry = new Map<string, ResolvedLogo>();
+
+/** Add (or replace) a logo. Call at module load, before anything renders it. */
+export function registerLogo(definition: LogoDefinition): void {
+  registry.set(definition.id, {
+    ...definition,
+    accent: definition.accent ?? definition.colors[0] ?? '#ffffff',
+  });
+}
+
+export function hasLogo(id: string): boolean {
+  return registry.has(id);
+}
+
+export function getLogo(id: string): ResolvedLogo {
+  const logo = registry.get(id);
+  if (!logo) {
+    throw new Error(`Unknown logo "${id}" — register it with registerLogo() first`);
+  }
+  return logo;
+}
+
+/** Every registered logo, in registration order (e.g. for an alumni strip) */
+export function listLogos(): ResolvedLogo[] {
+  return [...registry.values()];
+}
+
+// ============================================================================
+// BUILT-IN LOGOS
+// ============================================================================
+
+registerLogo({
+  id: 'google',
+  name: 'Google',
+  component: GoogleMark,
+  colors: ['#4285F4', '#EA4335', '#FBBC05', '#34A853'],
+  tuning: { mult: 1.05 },
+});
+
+registerLogo({
+  id: 'apple',
+  name: 'Apple',
+  component: AppleMark,
+  colors: ['#A2AAAD', '#86868B', '#F5F5F7'],
+  accent: '#E8E8E8',
+  tuning: { mult: 1.08, translateY: -2 },
+});
+
+registerLogo({
+  id: 'meta',
+  name: 'Meta',
+  component: MetaMark,
+  colors: ['#0668E1', '#0081FB', '#0064E0'],
+  tuning: { mult: 1.05 },
+});
+
+registerLogo({
+  id: 'microsoft',
+  name: 'Microsoft',
+  component: MicrosoftMark,
+  colors: ['#F25022', '#7FBA00', '#00A4EF', '#FFB900'],
+  accent: '#00A4EF',
+});
+
+registerLogo({
+  id: 'amazon',
+  name: 'Amazon',
+  component: AmazonMark,
+  colors: ['#FF9900', '#232F3E'],
+});
+
+registerLogo({
+  id: 'tesla',
+  name: 'Tesla',
+  component: TeslaMark,
+  colors: ['#E82127', '#FFFFFF', '#CC0000'],
+  tuning: { mult: 1.1, translateY: 8 },
+});
+
+registerLogo({
+  id: 'tiktok',
+  name: 'TikTok',
+  component: TikTokMark,
+  colors: ['#25F4EE', '#FE2C55', '#000000'],
+});
+
+// ============================================================================
+// INGESTED SVG LOGOS
+// Files in src/assets/logos (run `pnpm logos`). Registered last, so a file
+// named after a built-in replaces its hand-written mark but keeps its curated
+// palette; other files use the colors the generator read from their fills.
+// ============================================================================
+
+SVG_LOGOS.forEach((source) => {
+  const existing = registry.get(source.id);
+  const name = existing?.name ?? source.name;
+
+  registerLogo({
+    id: source.id,
+    name,
+    component: createSvgLogo(source, name),
+    colors: existing?.colors ?? source.colors ?? ['#ffffff'],
+    accent: existing?.accent,
+    source,
+  });
+});
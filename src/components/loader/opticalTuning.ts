@@ -0,0 +1,31 @@
+// opticalTuning.ts — Size / centering for ingested SVG logos
+
+import type { LogoTuning } from '@/components/loader/logoRegistry';
+import type { SvgLogoSource } from '@/components/loader/svgLogo';
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+const NEUTRAL: LogoTuning = { mult: 1.0 };
+
+/**
+ * Tuning for a logo drawn at `size` px. Manual tuning wins; ingested SVG
+ * logos otherwise use what scripts/generate-logos.mjs measured (ink coverage
+ * → size, ink centroid → nudge), so the first render is already final.
+ */
+export function logoTuning(
+  source: SvgLogoSource | undefined,
+  manual: LogoTuning | undefined,
+  size: number
+): LogoTuning {
+  if (manual) return manual;
+  if (!source?.tuning) return NEUTRAL;
+
+  const { mult, offsetX, offsetY } = source.tuning;
+  return {
+    mult,
+    translateX: Math.round(offsetX * size * mult),
+    translateY: Math.round(offsetY * size * mult),
+  };
+}
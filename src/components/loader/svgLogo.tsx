@@ -0,0 +1,77 @@
+// svgLogo.tsx — Logo components built from ingested SVG files
+'use client';
+
+import { memo, useId, useMemo } from 'react';
+import type { ComponentType } from 'react';
+
+import type { LogoProps } from '@/components/loader/FaangLogos';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Optical correction measured by the generator; offsets are fractions of the drawn size */
+export interface SvgLogoTuning {
+  mult: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/** One entry of svgLogos.generated.ts (see scripts/generate-logos.mjs) */
+export interface SvgLogoSource {
+  id: string;
+  name: string;
+  /** Square viewBox centered on the artwork */
+  viewBox: string;
+  /** Inner SVG markup with ids namespaced by ID_TOKEN */
+  body: string;
+  /** Missing when the artwork paints nothing */
+  tuning?: SvgLogoTuning;
+  /** Distinct fill / stroke / stop colors in document order; missing when none are set */
+  colors?: string[];
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+/** Placeholder the generator puts in front of every id; must match the script */
+export const ID_TOKEN = '__LOGO_ID__';
+
+const DEFAULT_SIZE = 56;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Markup with its ids scoped to `scope` */
+export const scopeLogoBody = (source: SvgLogoSource, scope: string): string =>
+  source.body.split(ID_TOKEN).join(scope);
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/** `name` is the accessible label; pass the registry's name when it overrides the file's */
+export function createSvgLogo(source: SvgLogoSource, name = source.name): ComponentType<LogoProps> {
+  const SvgLogo = memo(function SvgLogo({ size = DEFAULT_SIZE, className }: LogoProps) {
+    const scope = useId().replace(/[^a-zA-Z0-9_-]/g, '');
+    const html = useMemo(() => scopeLogoBody(source, scope), [scope]);
+
+    return (
+      <svg
+        className={className}
+        width={size}
+        height={size}
+        viewBox={source.viewBox}
+        role="img"
+        aria-label={name}
+        xmlns="http://www.w3.org/2000/svg"
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+    );
+  });
+  SvgLogo.displayName = `SvgLogo(${source.id})`;
+
+  return SvgLogo;
+}
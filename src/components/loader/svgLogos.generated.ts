@@ -0,0 +1,5 @@
+// svgLogos.generated.ts — Generated by scripts/generate-logos.mjs from src/assets/logos. Do not edit.
+
+import type { SvgLogoSource } from '@/components/loader/svgLogo';
+
+export const SVG_LOGOS: SvgLogoSource[] = [];
@@ -1,6 +1,7 @@
 // GlassSurface.tsx — Optimized for performance with mobile fallbacks
 
 import React, { useEffect, useRef, useState, useId, useCallback, useMemo } from 'react';
+import { useDeviceCapabilities } from '@/lib/deviceCapabilities';
 
 // ============================================================================
 // TYPES
@@ -49,63 +50,6 @@ export interface GlassSurfaceProps {
   forceSimple?: boolean;
 }
 
-// ============================================================================
-// DEVICE DETECTION
-// ============================================================================
-
-interface DeviceCapabilities {
-  isLowPower: boolean;
-  prefersReducedMotion: boolean;
-  supportsSVGFilters: boolean;
-  supportsBackdropFilter: boolean;
-  isMobile: boolean;
-}
-
-const detectCapabilities = (filterId: string): DeviceCapabilities => {
-  if (typeof window === 'undefined') {
-    return {
-      isLowPower: true,
-      prefersReducedMotion: false,
-      supportsSVGFilters: false,
-      supportsBackdropFilter: false,
-      isMobile: false,
-    };
-  }
-
-  const ua = navigator.userAgent;
-  const isMobile = /Android|iPhone|iPad|iPod|webOS|BlackBerry|IEMobile|Opera Mini/i.test(ua);
-  const isWebkit = /Safari/.test(ua) && !/Chrome/.test(ua);
-  const isFirefox = /Firefox/.test(ua);
-  const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
-  
-  // Low power detection
-  const isLowPower = 
-    isMobile ||
-    (navigator.hardwareConcurrency !== undefined && navigator.hardwareConcurrency <= 4) ||
-    window.innerWidth < 768 ||
-    // Battery API check (if available)
-    ('getBattery' in navigator);
-
-  // SVG filter support (problematic on Safari/Firefox)
-  let supportsSVGFilters = false;
-  if (!isWebkit && !isFirefox && !isMobile) {
-    const div = document.createElement('div');
-    div.style.backdropFilter = `url(#${filterId})`;
-    supportsSVGFilters = div.style.backdropFilter !== '';
-  }
-
-  // Basic backdrop-filter support
-  const supportsBackdropFilter = CSS.supports('backdrop-filter', 'blur(10px)');
-
-  return {
-    isLowPower,
-    prefersReducedMotion,
-    supportsSVGFilters,
-    supportsBackdropFilter,
-    isMobile,
-  };
-};
-
 // ============================================================================
 // HOOKS
 // ============================================================================
@@ -159,13 +103,7 @@ const GlassSurface: React.FC<GlassSurfaceProps> = ({
   const redGradId = `red-grad-${uniqueId}`;
   const blueGradId = `blue-grad-${uniqueId}`;
 
-  const [capabilities, setCapabilities] = useState<DeviceCapabilities>({
-    isLowPower: true,
-    prefersReducedMotion: false,
-    supportsSVGFilters: false,
-    supportsBackdropFilter: false,
-    isMobile: false,
-  });
+  const capabilities = useDeviceCapabilities();
   const [isVisible, setIsVisible] = useState(false);
 
   const containerRef = useRef<HTMLDivElement>(null);
@@ -177,11 +115,6 @@ const GlassSurface: React.FC<GlassSurfaceProps> = ({
 
   const isDarkMode = useDarkMode();
 
-  // Detect capabilities on mount
-  useEffect(() => {
-    setCapabilities(detectCapabilities(filterId));
-  }, [filterId]);
-
   // Intersection Observer for lazy rendering
   useEffect(() => {
     if (!containerRef.current) return;
@@ -3,31 +3,7 @@
 
 import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { motion, useMotionValue, useTransform } from 'framer-motion';
-
-// ============================================================================
-// PERFORMANCE UTILITIES
-// ============================================================================
-
-const getDeviceCapabilities = () => {
-  if (typeof window === 'undefined') {
-    return { isLowPower: false, prefersReducedMotion: false };
-  }
-  
-  const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
-  
-  // Detect low-power devices
-  const isLowPower = 
-    // Mobile devices
-    /Android|iPhone|iPad|iPod|webOS|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ||
-    // Low core count
-    (navigator.hardwareConcurrency !== undefined && navigator.hardwareConcurrency <= 4) ||
-    // Small screen (likely mobile)
-    window.innerWidth < 768 ||
-    // Safari on iOS (often throttled)
-    (/Safari/.test(navigator.userAgent) && /iPhone|iPad|iPod/.test(navigator.userAgent));
-  
-  return { isLowPower, prefersReducedMotion };
-};
+import { useDeviceCapabilities } from '@/lib/deviceCapabilities';
 
 // ============================================================================
 // TYPES
@@ -66,10 +42,8 @@ const TextShiny: React.FC<TextShinyProps> = ({
 }) => {
   const [isPaused, setIsPaused] = useState(false);
   const [isVisible, setIsVisible] = useState(true);
-  
-  // Use lazy initializer to avoid setState in effect
-  const [capabilities, setCapabilities] = useState(() => getDeviceCapabilities());
-  
+  const capabilities = useDeviceCapabilities();
+
   const progress = useMotionValue(0);
   const containerRef = useRef<HTMLSpanElement>(null);
   const elapsedRef = useRef(0);
@@ -77,16 +51,6 @@ const TextShiny: React.FC<TextShinyProps> = ({
   const directionRef = useRef(direction === 'left' ? 1 : -1);
   const rafIdRef = useRef<number | null>(null);
 
-  // Listen for reduced motion changes (this is a valid use of setState in effect - responding to external system)
-  useEffect(() => {
-    const mediaQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
-    const handler = (e: MediaQueryListEvent) => {
-      setCapabilities(prev => ({ ...prev, prefersReducedMotion: e.matches }));
-    };
-    mediaQuery.addEventListener('change', handler);
-    return () => mediaQuery.removeEventListener('change', handler);
-  }, []);
-
   // Derived values
   const animationDuration = speed * 1000;
   const delayDuration = delay * 1000;
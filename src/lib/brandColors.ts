@@ -1,16 +1,4 @@
 // brandColors.ts
-export const BRAND_COLORS = {
-  google: ['#4285F4', '#EA4335', '#FBBC05', '#34A853'],
-  apple: ['#A2AAAD', '#86868B', '#F5F5F7'],
-  meta: ['#0668E1', '#0081FB', '#0064E0'],
-  microsoft: ['#F25022', '#7FBA00', '#00A4EF', '#FFB900'],
-  amazon: ['#FF9900', '#232F3E'],
-  // Metaballs-only (not used in loader)
-  tesla: ['#E82127', '#FFFFFF', '#CC0000'],
-  tiktok: ['#25F4EE', '#FE2C55', '#000000'],
-} as const;
-
-export type Company = keyof typeof BRAND_COLORS;
 
 /**
  * Datafluent• letter indices (loader only — 5 companies):
@@ -39,9 +27,9 @@ export type LogoDirection =
   | 'bottom-right';
 
 export interface LogoConfig {
-  name: Company;
+  /** Logo registry id; the letter colors come from its palette */
+  name: string;
   entranceDirection: LogoDirection;
-  colors: readonly string[];
   targets: readonly number[];
 }
 
@@ -50,31 +38,26 @@ export const LOGO_CONFIGS: readonly LogoConfig[] = [
   {
     name: 'google',
     entranceDirection: 'bottom-left',
-    colors: BRAND_COLORS.google,
     targets: LOGO_LETTER_TARGETS.google,
   },
   {
     name: 'apple',
     entranceDirection: 'top',
-    colors: BRAND_COLORS.apple,
     targets: LOGO_LETTER_TARGETS.apple,
   },
   {
     name: 'meta',
     entranceDirection: 'right',
-    colors: BRAND_COLORS.meta,
     targets: LOGO_LETTER_TARGETS.meta,
   },
   {
     name: 'microsoft',
     entranceDirection: 'left',
-    colors: BRAND_COLORS.microsoft,
     targets: LOGO_LETTER_TARGETS.microsoft,
   },
   {
     name: 'amazon',
     entranceDirection: 'bottom-right',
-    colors: BRAND_COLORS.amazon,
     targets: LOGO_LETTER_TARGETS.amazon,
   },
 ] as const;
@@ -0,0 +1,213 @@
+// deviceCapabilities.tsx — Single source of truth for device / feature detection
+'use client';
+
+import { createContext, useContext, useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PointerType = 'fine' | 'coarse' | 'none';
+
+export interface DeviceCapabilities {
+  /** False during SSR and the first client render, before detection has run. */
+  detected: boolean;
+  /** Mobile layout: a handheld, or any viewport under MOBILE_WIDTH */
+  isMobile: boolean;
+  /** Device class: mobile UA, or a narrow touch screen (a resized desktop window stays false) */
+  isHandheld: boolean;
+  isLowPower: boolean;
+  prefersReducedMotion: boolean;
+  supportsWebGL: boolean;
+  supportsSVGFilters: boolean;
+  supportsBackdropFilter: boolean;
+  pointer: PointerType;
+  hasTouch: boolean;
+  cores: number | null;
+  /** Approximate RAM in GB (Chromium only). */
+  deviceMemory: number | null;
+  saveData: boolean;
+  screenWidth: number;
+}
+
+interface NetworkInformationLike extends EventTarget {
+  saveData?: boolean;
+}
+
+type NavigatorWithHints = Navigator & {
+  deviceMemory?: number;
+  connection?: NetworkInformationLike;
+};
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+const MOBILE_UA = /Android|iPhone|iPad|iPod|webOS|BlackBerry|IEMobile|Opera Mini/i;
+const MOBILE_WIDTH = 768;
+const LOW_POWER_CORES = 4;
+const LOW_POWER_MEMORY_GB = 4;
+
+const SSR_CAPABILITIES: DeviceCapabilities = {
+  detected: false,
+  isMobile: false,
+  isHandheld: false,
+  isLowPower: false,
+  prefersReducedMotion: false,
+  supportsWebGL: true, // Assume true, verified on mount
+  supportsSVGFilters: false,
+  supportsBackdropFilter: false,
+  pointer: 'fine',
+  hasTouch: false,
+  cores: null,
+  deviceMemory: null,
+  saveData: false,
+  screenWidth: 1024,
+};
+
+// WebGL and SVG-filter probes are expensive and never change — run them once
+let staticProbes: { supportsWebGL: boolean; supportsSVGFilters: boolean } | null = null;
+
+const probeWebGL = (): boolean => {
+  try {
+    const canvas = document.createElement('canvas');
+    const gl = canvas.getContext('webgl') || canvas.getContext('experimental-webgl');
+    if (gl) {
+      const loseContext = (gl as WebGLRenderingContext).getExtension('WEBGL_lose_context');
+      loseContext?.loseContext();
+    }
+    return !!gl;
+  } catch {
+    return false;
+  }
+};
+
+// backdrop-filter: url(#svg) only renders correctly in Chromium desktop
+const probeSVGFilters = (ua: string, isMobileUA: boolean): boolean => {
+  const isWebkit = /Safari/.test(ua) && !/Chrome/.test(ua);
+  const isFirefox = /Firefox/.test(ua);
+  if (isWebkit || isFirefox || isMobileUA) return false;
+
+  const div = document.createElement('div');
+  div.style.backdropFilter = 'url(#probe)';
+  return div.style.backdropFilter !== '';
+};
+
+const getPointer = (): PointerType => {
+  if (window.matchMedia('(pointer: fine)').matches) return 'fine';
+  if (window.matchMedia('(pointer: coarse)').matches) return 'coarse';
+  return 'none';
+};
+
+const detectCapabilities = (): DeviceCapabilities => {
+  const nav = navigator as NavigatorWithHints;
+  const ua = nav.userAgent;
+  const isMobileUA = MOBILE_UA.test(ua);
+
+  if (!staticProbes) {
+    staticProbes = {
+      supportsWebGL: probeWebGL(),
+      supportsSVGFilters: probeSVGFilters(ua, isMobileUA),
+    };
+  }
+
+  const screenWidth = window.innerWidth;
+  const hasTouch = 'ontouchstart' in window || nav.maxTouchPoints > 0;
+  const isNarrow = screenWidth < MOBILE_WIDTH;
+  // Only handhelds count toward low power; a narrow desktop window keeps its budget
+  const isHandheld = isMobileUA || (isNarrow && hasTouch);
+  const isMobile = isHandheld || isNarrow;
+
+  const cores = nav.hardwareConcurrency ?? null;
+  const deviceMemory = nav.deviceMemory ?? null;
+  const saveData = nav.connection?.saveData === true;
+
+  const isLowPower =
+    isHandheld ||
+    saveData ||
+    (cores !== null && cores <= LOW_POWER_CORES) ||
+    (deviceMemory !== null && deviceMemory <= LOW_POWER_MEMORY_GB);
+
+  return {
+    detected: true,
+    isMobile,
+    isHandheld,
+    isLowPower,
+    prefersReducedMotion: window.matchMedia('(prefers-reduced-motion: reduce)').matches,
+    supportsWebGL: staticProbes.supportsWebGL,
+    supportsSVGFilters: staticProbes.supportsSVGFilters,
+    supportsBackdropFilter: CSS.supports('backdrop-filter', 'blur(10px)'),
+    pointer: getPointer(),
+    hasTouch,
+    cores,
+    deviceMemory,
+    saveData,
+    screenWidth,
+  };
+};
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+const DeviceCapabilitiesContext = createContext<DeviceCapabilities | null>(null);
+
+export function DeviceCapabilitiesProvider({ children }: { children: ReactNode }) {
+  const [capabilities, setCapabilities] = useState<DeviceCapabilities>(SSR_CAPABILITIES);
+
+  useEffect(() => {
+    const update = () => setCapabilities(detectCapabilities());
+    update();
+
+    // Throttled resize handler
+    let resizeTimeout: NodeJS.Timeout | null = null;
+    const handleResize = () => {
+      if (resizeTimeout) clearTimeout(resizeTimeout);
+      resizeTimeout = setTimeout(update, 150);
+    };
+
+    const queries = [
+      window.matchMedia('(prefers-reduced-motion: reduce)'),
+      window.matchMedia('(pointer: fine)'),
+      window.matchMedia('(pointer: coarse)'),
+    ];
+    queries.forEach((q) => q.addEventListener('change', update));
+
+    const connection = (navigator as NavigatorWithHints).connection;
+    connection?.addEventListener('change', update);
+
+    window.addEventListener('resize', handleResize, { passive: true });
+
+    return () => {
+      if (resizeTimeout) clearTimeout(resizeTimeout);
+      window.removeEventListener('resize', handleResize);
+      queries.forEach((q) => q.removeEventListener('change', update));
+      connection?.removeEventListener('change', update);
+    };
+  }, []);
+
+  return (
+    <DeviceCapabilitiesContext.Provider value={capabilities}>
+      {children}
+    </DeviceCapabilitiesContext.Provider>
+  );
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+export function useDeviceCapabilities(): DeviceCapabilities {
+  const capabilities = useContext(DeviceCapabilitiesContext);
+  if (!capabilities) {
+    throw new Error('useDeviceCapabilities must be used inside <DeviceCapabilitiesProvider>');
+  }
+  return capabilities;
+}
+
+/** Device class, or null until detection has run (avoids rendering the wrong section). */
+export function useIsMobile(): boolean | null {
+  const { detected, isHandheld } = useDeviceCapabilities();
+  return detected ? isHandheld : null;
+}
@@ -0,0 +1,122 @@
+// glBudget.tsx — Page-level budget for live WebGL contexts
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useId, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+
+import { useDeviceCapabilities } from '@/lib/deviceCapabilities';
+import { INITIAL_GL_BUDGET_STATE, MAX_LIVE_CONTEXTS, allocateContexts, glBudgetReducer } from '@/lib/glBudgetAllocation';
+import type { GLBudgetEvent } from '@/lib/glBudgetAllocation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GLSurfaceState {
+  /** May hold a GL context; when false, dispose it and show the fallback */
+  live: boolean;
+  /** Live but off screen: keep the context, stop rendering frames */
+  paused: boolean;
+}
+
+interface SurfaceOptions {
+  /** Only surfaces that actually want WebGL take a slot (default: true) */
+  enabled?: boolean;
+  priority?: number;
+}
+
+interface GLBudgetContextValue {
+  live: ReadonlySet<string>;
+  update: (id: string, visible: boolean, priority: number) => void;
+  unregister: (id: string) => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const sameSet = (a: ReadonlySet<string>, b: ReadonlySet<string>) =>
+  a.size === b.size && [...a].every((id) => b.has(id));
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+const GLBudgetContext = createContext<GLBudgetContextValue | null>(null);
+
+interface GLBudgetProviderProps {
+  children: ReactNode;
+  /** Override the device-based limit */
+  maxContexts?: number;
+}
+
+export function GLBudgetProvider({ children, maxContexts }: GLBudgetProviderProps) {
+  const { isLowPower } = useDeviceCapabilities();
+  const limit = maxContexts ?? (isLowPower ? MAX_LIVE_CONTEXTS.lowPower : MAX_LIVE_CONTEXTS.default);
+
+  const stateRef = useRef(INITIAL_GL_BUDGET_STATE);
+  const limitRef = useRef(limit);
+  const [live, setLive] = useState<ReadonlySet<string>>(() => new Set());
+
+  const reallocate = useCallback(() => {
+    const next = allocateContexts(stateRef.current.surfaces, limitRef.current);
+    setLive((prev) => (sameSet(prev, next) ? prev : next));
+  }, []);
+
+  const dispatch = useCallback(
+    (event: GLBudgetEvent) => {
+      stateRef.current = glBudgetReducer(stateRef.current, event);
+      reallocate();
+    },
+    [reallocate]
+  );
+
+  useEffect(() => {
+    limitRef.current = limit;
+    reallocate();
+  }, [limit, reallocate]);
+
+  const update = useCallback(
+    (id: string, visible: boolean, priority: number) =>
+      dispatch({ type: 'update', id, visible, priority, now: performance.now() }),
+    [dispatch]
+  );
+
+  const unregister = useCallback((id: string) => dispatch({ type: 'unregister', id }), [dispatch]);
+
+  const value = useMemo<GLBudgetContextValue>(() => ({ live, update, unregister }), [live, update, unregister]);
+
+  return <GLBudgetContext.Provider value={value}>{children}</GLBudgetContext.Provider>;
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * Claim a WebGL slot for a canvas. Off-screen surfaces keep their context
+ * (paused) while the budget allows; the least recently seen is evicted first.
+ * Without a provider every surface is live.
+ */
+export function useGLSurface(
+  visible: boolean,
+  { enabled = true, priority = 0 }: SurfaceOptions = {}
+): GLSurfaceState {
+  const id = useId();
+  const ctx = useContext(GLBudgetContext);
+  const update = ctx?.update;
+  const unregister = ctx?.unregister;
+
+  useEffect(() => {
+    if (!enabled || !update) return;
+    update(id, visible, priority);
+  }, [id, enabled, visible, priority, update]);
+
+  useEffect(() => {
+    if (!enabled || !unregister) return;
+    return () => unregister(id);
+  }, [id, enabled, unregister]);
+
+  const live = enabled && (ctx ? ctx.live.has(id) : true);
+  return { live, paused: live && !visible };
+}
@@ -0,0 +1,77 @@
+// glBudgetAllocation.test.ts — Which surfaces keep a WebGL context
+
+import { describe, expect, it } from 'vitest';
+
+import { INITIAL_GL_BUDGET_STATE, allocateContexts, glBudgetReducer } from './glBudgetAllocation';
+import type { GLBudgetEvent, GLBudgetState } from './glBudgetAllocation';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+const show = (id: string, now: number, priority = 0): GLBudgetEvent => ({ type: 'update', id, visible: true, priority, now });
+
+const hide = (id: string, now: number, priority = 0): GLBudgetEvent => ({ type: 'update', id, visible: false, priority, now });
+
+const run = (...events: GLBudgetEvent[]): GLBudgetState => events.reduce(glBudgetReducer, INITIAL_GL_BUDGET_STATE);
+
+const live = (state: GLBudgetState, maxContexts: number) => [...allocateContexts(state.surfaces, maxContexts)].sort();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reducer
+// ─────────────────────────────────────────────────────────────────────────────
+describe('glBudgetReducer', () => {
+  it('keeps the registration order and last-visible time across updates', () => {
+    const state = run(show('a', 10), show('b', 20), hide('a', 30));
+
+    expect(state.surfaces.get('a')).toEqual({ visible: false, priority: 0, lastVisibleAt: 10, order: 0 });
+    expect(state.surfaces.get('b')?.order).toBe(1);
+    expect(state.nextOrder).toBe(2);
+  });
+
+  it('never marks a surface as seen before it was visible', () => {
+    const state = run(hide('a', 50));
+
+    expect(state.surfaces.get('a')?.lastVisibleAt).toBe(0);
+  });
+
+  it('drops unregistered surfaces and ignores unknown ids', () => {
+    const state = run(show('a', 10), { type: 'unregister', id: 'a' });
+
+    expect(state.surfaces.size).toBe(0);
+    expect(glBudgetReducer(state, { type: 'unregister', id: 'a' })).toBe(state);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Allocation
+// ─────────────────────────────────────────────────────────────────────────────
+describe('allocateContexts', () => {
+  it('gives every surface a slot while under the limit', () => {
+    expect(live(run(show('hero', 10), hide('hero', 20), show('device', 20)), 2)).toEqual(['device', 'hero']);
+  });
+
+  it('puts on-screen surfaces first', () => {
+    const state = run(show('a', 10), show('b', 20), hide('b', 30), show('c', 5, -1));
+
+    expect(live(state, 2)).toEqual(['a', 'c']);
+  });
+
+  it('evicts the least recently seen off-screen surface', () => {
+    const state = run(show('a', 10), hide('a', 15), show('b', 20), hide('b', 25), show('c', 30));
+
+    expect(live(state, 2)).toEqual(['b', 'c']);
+  });
+
+  it('breaks recency ties by priority, then registration order', () => {
+    const state = run(hide('low', 0), hide('high', 0, 5), hide('late', 0, 5));
+
+    expect(live(state, 1)).toEqual(['high']);
+    expect(live(state, 2)).toEqual(['high', 'late']);
+  });
+
+  it('prefers recency over priority', () => {
+    const state = run(show('important', 10, 9), hide('important', 11, 9), show('recent', 20), hide('recent', 21));
+
+    expect(live(state, 1)).toEqual(['recent']);
+  });
+});
@@ -0,0 +1,84 @@
+// glBudgetAllocation.ts — Pure reducer + ranking behind GLBudgetProvider
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SurfaceEntry {
+  visible: boolean;
+  /** Higher wins when visibility and recency tie */
+  priority: number;
+  /** Last time the surface was on screen (0 = never) */
+  lastVisibleAt: number;
+  /** Registration order, the final tie-break */
+  order: number;
+}
+
+export interface GLBudgetState {
+  surfaces: ReadonlyMap<string, SurfaceEntry>;
+  /** Order handed to the next new surface */
+  nextOrder: number;
+}
+
+export type GLBudgetEvent =
+  | { type: 'update'; id: string; visible: boolean; priority: number; now: number }
+  | { type: 'unregister'; id: string };
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+/**
+ * Browsers cap active contexts (~8-16) well above this; memory is the real limit.
+ * The landing page has two surfaces (hero light rays + one device section), so
+ * on desktop both stay live and scrolling back never rebuilds a context; the
+ * budget evicts on low-power devices and on pages with more canvases.
+ */
+export const MAX_LIVE_CONTEXTS = {
+  default: 2,
+  lowPower: 1,
+};
+
+export const INITIAL_GL_BUDGET_STATE: GLBudgetState = {
+  surfaces: new Map(),
+  nextOrder: 0,
+};
+
+// ============================================================================
+// REDUCER
+// ============================================================================
+
+export function glBudgetReducer(state: GLBudgetState, event: GLBudgetEvent): GLBudgetState {
+  const surfaces = new Map(state.surfaces);
+
+  if (event.type === 'unregister') {
+    if (!surfaces.delete(event.id)) return state;
+    return { ...state, surfaces };
+  }
+
+  const existing = surfaces.get(event.id);
+  surfaces.set(event.id, {
+    visible: event.visible,
+    priority: event.priority,
+    lastVisibleAt: event.visible ? event.now : (existing?.lastVisibleAt ?? 0),
+    order: existing?.order ?? state.nextOrder,
+  });
+
+  return { surfaces, nextOrder: existing ? state.nextOrder : state.nextOrder + 1 };
+}
+
+// ============================================================================
+// ALLOCATION
+// ============================================================================
+
+/** On-screen first, then most recently seen, then priority, then first registered. */
+export function allocateContexts(surfaces: ReadonlyMap<string, SurfaceEntry>, maxContexts: number): Set<string> {
+  const ranked = [...surfaces.entries()].sort(
+    ([, a], [, b]) =>
+      Number(b.visible) - Number(a.visible) ||
+      b.lastVisibleAt - a.lastVisibleAt ||
+      b.priority - a.priority ||
+      a.order - b.order
+  );
+  return new Set(ranked.slice(0, maxContexts).map(([id]) => id));
+}
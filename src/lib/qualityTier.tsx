@@ -0,0 +1,238 @@
+// qualityTier.tsx — Render quality tiers with FPS-driven auto-downgrade
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+
+import { useDeviceCapabilities } from '@/lib/deviceCapabilities';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type QualityTier = 'high' | 'medium' | 'low' | 'static';
+
+export interface QualitySettings {
+  /** DPR cap for the OGL light rays renderer */
+  maxDpr: number;
+  /** Frame cap for throttled animation loops */
+  targetFps: number;
+  /** R3F canvas DPR range */
+  canvasDpr: [number, number];
+  /** WebGL light rays (false → CSSLightRays) */
+  webglRays: boolean;
+  /** SVG-refraction glass on the hero orbs (false → simple glass) */
+  refractiveGlass: boolean;
+  /** Star field behind the hero (rendered static under reduced motion) */
+  stars: boolean;
+}
+
+interface QualityContextValue {
+  tier: QualityTier;
+  settings: QualitySettings;
+  /** Start sampling frame times; returns the matching stop function */
+  registerMonitor: () => () => void;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  high: {
+    maxDpr: 1.5,
+    targetFps: 30,
+    canvasDpr: [1, 2],
+    webglRays: true,
+    refractiveGlass: true,
+    stars: true,
+  },
+  medium: {
+    maxDpr: 1.25,
+    targetFps: 30,
+    canvasDpr: [1, 1.5],
+    webglRays: true,
+    refractiveGlass: false,
+    stars: true,
+  },
+  low: {
+    maxDpr: 1,
+    targetFps: 20,
+    canvasDpr: [1, 1],
+    webglRays: false,
+    refractiveGlass: false,
+    stars: false,
+  },
+  static: {
+    maxDpr: 1,
+    targetFps: 20,
+    canvasDpr: [1, 1],
+    webglRays: false,
+    refractiveGlass: false,
+    stars: true,
+  },
+};
+
+// Ordered best → worst; 'static' is only entered via reduced motion, never by FPS
+const ADAPTIVE_TIERS: QualityTier[] = ['high', 'medium', 'low'];
+
+const MONITOR = {
+  /** Length of one sampling window */
+  windowMs: 2000,
+  /** Average FPS below this counts as a dropped window */
+  downgradeFps: 45,
+  /** Average FPS above this counts as a headroom window */
+  upgradeFps: 57,
+  /** Consecutive dropped windows before stepping down */
+  downgradeWindows: 2,
+  /** Consecutive headroom windows before stepping back up */
+  upgradeWindows: 5,
+  /** Ignore samples after a tier change while the scene re-settles */
+  cooldownMs: 3000,
+  /** Longer frames are tab switches / scroll jumps, not rendering cost */
+  maxFrameMs: 250,
+};
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+const QualityTierContext = createContext<QualityContextValue | null>(null);
+
+export function QualityTierProvider({ children }: { children: ReactNode }) {
+  const capabilities = useDeviceCapabilities();
+
+  // Best tier this device is allowed to reach
+  const ceiling: QualityTier = capabilities.prefersReducedMotion
+    ? 'static'
+    : capabilities.isLowPower
+      ? 'medium'
+      : 'high';
+
+  // Steps below the ceiling chosen by the frame monitor
+  const [drop, setDrop] = useState(0);
+
+  const tier: QualityTier =
+    ceiling === 'static'
+      ? 'static'
+      : ADAPTIVE_TIERS[Math.min(ADAPTIVE_TIERS.indexOf(ceiling) + drop, ADAPTIVE_TIERS.length - 1)];
+
+  const maxDrop = ceiling === 'static' ? 0 : ADAPTIVE_TIERS.length - 1 - ADAPTIVE_TIERS.indexOf(ceiling);
+  const maxDropRef = useRef(maxDrop);
+
+  useEffect(() => {
+    maxDropRef.current = maxDrop;
+  }, [maxDrop]);
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Frame-time monitor (single rAF loop shared by every registered scene)
+  // ─────────────────────────────────────────────────────────────────────────
+  const monitorCountRef = useRef(0);
+  const rafRef = useRef<number | null>(null);
+
+  const stopLoop = useCallback(() => {
+    if (rafRef.current !== null) {
+      cancelAnimationFrame(rafRef.current);
+      rafRef.current = null;
+    }
+  }, []);
+
+  const startLoop = useCallback(() => {
+    if (rafRef.current !== null) return;
+
+    let last = performance.now();
+    let windowStart = last;
+    let frames = 0;
+    let busyMs = 0;
+    let dropped = 0;
+    let headroom = 0;
+    let cooldownUntil = last + MONITOR.cooldownMs;
+
+    const step = (delta: number) => {
+      setDrop((d) => Math.max(0, Math.min(maxDropRef.current, d + delta)));
+      dropped = 0;
+      headroom = 0;
+      cooldownUntil = performance.now() + MONITOR.cooldownMs;
+    };
+
+    const loop = (now: number) => {
+      const frameMs = now - last;
+      last = now;
+
+      if (now >= cooldownUntil && frameMs < MONITOR.maxFrameMs) {
+        frames++;
+        busyMs += frameMs;
+      }
+
+      if (now - windowStart >= MONITOR.windowMs) {
+        if (frames > 0) {
+          const fps = (frames * 1000) / busyMs;
+
+          if (fps < MONITOR.downgradeFps) {
+            dropped++;
+            headroom = 0;
+          } else if (fps > MONITOR.upgradeFps) {
+            headroom++;
+            dropped = 0;
+          } else {
+            dropped = 0;
+            headroom = 0;
+          }
+
+          if (dropped >= MONITOR.downgradeWindows) step(1);
+          else if (headroom >= MONITOR.upgradeWindows) step(-1);
+        }
+
+        windowStart = now;
+        frames = 0;
+        busyMs = 0;
+      }
+
+      rafRef.current = requestAnimationFrame(loop);
+    };
+
+    rafRef.current = requestAnimationFrame(loop);
+  }, []);
+
+  const registerMonitor = useCallback(() => {
+    monitorCountRef.current++;
+    startLoop();
+
+    return () => {
+      monitorCountRef.current = Math.max(0, monitorCountRef.current - 1);
+      if (monitorCountRef.current === 0) stopLoop();
+    };
+  }, [startLoop, stopLoop]);
+
+  useEffect(() => stopLoop, [stopLoop]);
+
+  const value = useMemo<QualityContextValue>(
+    () => ({ tier, settings: QUALITY_SETTINGS[tier], registerMonitor }),
+    [tier, registerMonitor]
+  );
+
+  return <QualityTierContext.Provider value={value}>{children}</QualityTierContext.Provider>;
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+export function useQualityTier(): Pick<QualityContextValue, 'tier' | 'settings'> {
+  const ctx = useContext(QualityTierContext);
+  if (!ctx) {
+    throw new Error('useQualityTier must be used inside <QualityTierProvider>');
+  }
+  return { tier: ctx.tier, settings: ctx.settings };
+}
+
+/** Sample real frame times while `active` (e.g. while a heavy scene is on screen). */
+export function useQualityMonitor(active: boolean): void {
+  const ctx = useContext(QualityTierContext);
+  const registerMonitor = ctx?.registerMonitor;
+
+  useEffect(() => {
+    if (!active || !registerMonitor) return;
+    return registerMonitor();
+  }, [active, registerMonitor]);
+}
@@ -0,0 +1,186 @@
+// videoRenditions.ts — Picks the best demo-video rendition for this device
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VideoRendition {
+  src: string;
+  /**
+   * MIME type with codecs, e.g. `video/mp4; codecs="avc1.64001F"`,
+   * `video/webm; codecs="vp9"`, or `application/vnd.apple.mpegurl` for HLS.
+   */
+  type: string;
+  /** Encoded frame size (not needed for HLS manifests) */
+  width?: number;
+  height?: number;
+  /** Bits per second */
+  bitrate?: number;
+  framerate?: number;
+}
+
+/** A single URL, or renditions to choose from */
+export type VideoSource = string | VideoRendition[];
+
+interface NetworkInformationLike {
+  saveData?: boolean;
+  effectiveType?: 'slow-2g' | '2g' | '3g' | '4g';
+  /** Estimated bandwidth in Mbps */
+  downlink?: number;
+}
+
+interface DecodeInfo {
+  supported: boolean;
+  smooth: boolean;
+  powerEfficient: boolean;
+}
+
+interface SelectOptions {
+  /** Device pixels the video will cover on screen */
+  targetWidth: number;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const HLS_TYPE = /mpegurl/i;
+
+// Assumed when a rendition omits its metadata
+const DEFAULTS = { width: 1280, height: 720, bitrate: 2_500_000, framerate: 30 };
+
+// Highest rendition height allowed for a given connection
+const NETWORK_CAPS = {
+  saveData: 480,
+  slow: 480, // slow-2g / 2g, or under 2 Mbps
+  medium: 720, // 3g, or under 5 Mbps
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const getConnection = (): NetworkInformationLike | undefined =>
+  (navigator as Navigator & { connection?: NetworkInformationLike }).connection;
+
+const maxHeightForNetwork = (): number => {
+  const connection = getConnection();
+  if (!connection) return Infinity;
+
+  if (connection.saveData) return NETWORK_CAPS.saveData;
+
+  const { effectiveType, downlink } = connection;
+  if (effectiveType === 'slow-2g' || effectiveType === '2g') return NETWORK_CAPS.slow;
+  if (typeof downlink === 'number' && downlink > 0 && downlink < 2) return NETWORK_CAPS.slow;
+  if (effectiveType === '3g') return NETWORK_CAPS.medium;
+  if (typeof downlink === 'number' && downlink > 0 && downlink < 5) return NETWORK_CAPS.medium;
+
+  return Infinity;
+};
+
+const widthOf = (r: VideoRendition) => r.width ?? DEFAULTS.width;
+const heightOf = (r: VideoRendition) => r.height ?? DEFAULTS.height;
+
+const decodeInfo = async (r: VideoRendition): Promise<DecodeInfo> => {
+  // canPlayType-only answer, used when MediaCapabilities is missing or throws
+  const fallback: DecodeInfo = { supported: true, smooth: true, powerEfficient: false };
+  if (!('mediaCapabilities' in navigator)) return fallback;
+
+  try {
+    const info = await navigator.mediaCapabilities.decodingInfo({
+      type: 'file',
+      video: {
+        contentType: r.type,
+        width: widthOf(r),
+        height: heightOf(r),
+        bitrate: r.bitrate ?? DEFAULTS.bitrate,
+        framerate: r.framerate ?? DEFAULTS.framerate,
+      },
+    });
+    return { supported: info.supported, smooth: info.smooth, powerEfficient: info.powerEfficient };
+  } catch {
+    return fallback;
+  }
+};
+
+/** Target pixel width of the video, estimated from the full-viewport canvas. */
+export const estimateTargetWidth = (viewportFraction: number, maxDpr = 2): number =>
+  Math.round(window.innerWidth * Math.min(window.devicePixelRatio || 1, maxDpr) * viewportFraction);
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Choose a rendition URL:
+ * 1. A native-HLS manifest if the browser plays one (it adapts by itself).
+ * 2. Otherwise files the browser can decode (canPlayType, then MediaCapabilities),
+ *    capped by save-data / connection speed, at the smallest size that still
+ *    covers `targetWidth`, preferring power-efficient and smooth decoders.
+ * Falls back to the first file rendition when nothing reports support.
+ */
+export async function selectRendition(
+  renditions: VideoRendition[],
+  { targetWidth }: SelectOptions
+): Promise<string> {
+  if (renditions.length === 0) throw new Error('selectRendition needs at least one rendition');
+
+  const probe = document.createElement('video');
+  const playable = renditions.filter((r) => probe.canPlayType(r.type) !== '');
+
+  const hls = playable.find((r) => HLS_TYPE.test(r.type));
+  if (hls) return hls.src;
+
+  const files = playable.filter((r) => !HLS_TYPE.test(r.type));
+  const firstFile = renditions.find((r) => !HLS_TYPE.test(r.type)) ?? renditions[0];
+  if (files.length === 0) return firstFile.src;
+
+  const infos = await Promise.all(files.map(decodeInfo));
+  const decodable = files
+    .map((rendition, i) => ({ rendition, info: infos[i] }))
+    .filter(({ info }) => info.supported);
+  if (decodable.length === 0) return firstFile.src;
+
+  // Respect the connection; if every rendition is above the cap use the smallest
+  const cap = maxHeightForNetwork();
+  const withinCap = decodable.filter(({ rendition }) => heightOf(rendition) <= cap);
+  const smallestHeight = Math.min(...decodable.map(({ rendition }) => heightOf(rendition)));
+  const eligible =
+    withinCap.length > 0
+      ? withinCap
+      : decodable.filter(({ rendition }) => heightOf(rendition) === smallestHeight);
+
+  // Smallest width that covers the target, else the largest available
+  const widths = [...new Set(eligible.map(({ rendition }) => widthOf(rendition)))].sort((a, b) => a - b);
+  const width = widths.find((w) => w >= targetWidth) ?? widths[widths.length - 1];
+
+  const [best] = eligible
+    .filter(({ rendition }) => widthOf(rendition) === width)
+    .sort(
+      (a, b) =>
+        Number(b.info.powerEfficient) - Number(a.info.powerEfficient) ||
+        Number(b.info.smooth) - Number(a.info.smooth) ||
+        (a.rendition.bitrate ?? DEFAULTS.bitrate) - (b.rendition.bitrate ?? DEFAULTS.bitrate)
+    );
+
+  return best.rendition.src;
+}
+
+/**
+ * Point a video element at a source. Plain URLs load immediately; renditions
+ * load once selection resolves. Resolves with the URL that was used.
+ */
+export async function assignVideoSource(
+  video: HTMLVideoElement,
+  source: VideoSource,
+  options: SelectOptions
+): Promise<string> {
+  const src = typeof source === 'string' ? source : await selectRendition(source, options);
+  video.src = src;
+  video.load();
+  return src;
+}
+
+/** Stable identity for a source, for caching preloaded elements */
+export const videoSourceKey = (source: VideoSource): string =>
+  typeof source === 'string' ? source : source.map((r) => r.src).join('|');
@@ -0,0 +1,77 @@
+// webglContext.ts — WebGL context loss / restore tracking for canvases
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ContextLossHandlers {
+  onLost: () => void;
+  onRestored: () => void;
+}
+
+interface ContextLossState {
+  /** True between `webglcontextlost` and `webglcontextrestored` */
+  contextLost: boolean;
+  /** Increments on every restore; use as a React key to rebuild GPU resources */
+  restoreCount: number;
+  /** Attach to the renderer's canvas (e.g. from R3F's onCreated) */
+  bindCanvas: (canvas: HTMLCanvasElement | null) => void;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Listen for context loss on a canvas. The lost event is default-prevented so
+ * the browser is allowed to restore the context later. Returns an unsubscribe.
+ */
+export function watchContextLoss(
+  canvas: HTMLCanvasElement,
+  { onLost, onRestored }: ContextLossHandlers
+): () => void {
+  const handleLost = (event: Event) => {
+    event.preventDefault();
+    onLost();
+  };
+
+  canvas.addEventListener('webglcontextlost', handleLost);
+  canvas.addEventListener('webglcontextrestored', onRestored);
+
+  return () => {
+    canvas.removeEventListener('webglcontextlost', handleLost);
+    canvas.removeEventListener('webglcontextrestored', onRestored);
+  };
+}
+
+/** React state for a canvas whose context may be lost (backgrounded tab, GPU pressure). */
+export function useContextLoss(): ContextLossState {
+  const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null);
+  const [contextLost, setContextLost] = useState(false);
+  const [restoreCount, setRestoreCount] = useState(0);
+
+  useEffect(() => {
+    if (!canvas) return;
+
+    return watchContextLoss(canvas, {
+      // A canvas already removed from the page is being disposed, not lost
+      onLost: () => {
+        if (canvas.isConnected) setContextLost(true);
+      },
+      onRestored: () => {
+        setContextLost(false);
+        setRestoreCount((count) => count + 1);
+      },
+    });
+  }, [canvas]);
+
+  const bindCanvas = useCallback((next: HTMLCanvasElement | null) => {
+    setCanvas(next);
+    setContextLost(false);
+  }, []);
+
+  return { contextLost, restoreCount, bindCanvas };
+}
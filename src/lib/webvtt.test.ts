@@ -0,0 +1,77 @@
+// webvtt.test.ts — Cue parsing and lookup for the caption overlay
+
+import { describe, expect, it } from 'vitest';
+
+import { activeCueText, parseWebVTT } from './webvtt';
+
+/** A WebVTT document from its blocks (header added, blank line between blocks) */
+const vtt = (...blocks: string[]) => ['WEBVTT', ...blocks].join('\n\n');
+
+describe('parseWebVTT', () => {
+  it('reads timestamps with and without hours', () => {
+    const cues = parseWebVTT(vtt('00:01.500 --> 00:04.000\nShort', '01:02:03.250 --> 01:02:05.000\nLong'));
+
+    expect(cues).toEqual([
+      { start: 1.5, end: 4, text: 'Short' },
+      { start: 3723.25, end: 3725, text: 'Long' },
+    ]);
+  });
+
+  it('keeps multi-line cue text and skips the cue identifier', () => {
+    const [cue] = parseWebVTT(vtt('intro\n00:00.000 --> 00:02.000\nFirst line\nSecond line'));
+
+    expect(cue.text).toBe('First line\nSecond line');
+  });
+
+  it('ignores cue settings after the timing', () => {
+    const [cue] = parseWebVTT(vtt('00:00.000 --> 00:02.000 align:start line:90% position:10%\nHello'));
+
+    expect(cue).toEqual({ start: 0, end: 2, text: 'Hello' });
+  });
+
+  it('skips NOTE, STYLE and REGION blocks', () => {
+    const cues = parseWebVTT(
+      vtt(
+        'NOTE This is a comment\nspanning two lines',
+        'STYLE\n::cue { color: yellow; }',
+        'REGION\nid:bottom width:40%',
+        '00:00.000 --> 00:01.000\nOnly cue'
+      )
+    );
+
+    expect(cues).toEqual([{ start: 0, end: 1, text: 'Only cue' }]);
+  });
+
+  it('strips cue tags and decodes entities', () => {
+    const [cue] = parseWebVTT(vtt('00:00.000 --> 00:01.000\n<v Ana><i>Fish &amp; chips</i></v> &lt;3'));
+
+    expect(cue.text).toBe('Fish & chips <3');
+  });
+
+  it('handles CRLF line endings and a byte-order mark', () => {
+    const cues = parseWebVTT('\uFEFFWEBVTT\r\n\r\n00:00.000 --> 00:01.000\r\nHi\r\n');
+
+    expect(cues).toEqual([{ start: 0, end: 1, text: 'Hi' }]);
+  });
+
+  it('skips malformed timings and empty cues, and sorts by start', () => {
+    const cues = parseWebVTT(
+      vtt('00:05.000 --> 00:06.000\nLater', '0:1 --> 0:2\nBroken', '00:03.000 --> 00:04.000', '00:01.000 --> 00:02.000\nEarlier')
+    );
+
+    expect(cues.map((cue) => cue.text)).toEqual(['Earlier', 'Later']);
+  });
+});
+
+describe('activeCueText', () => {
+  const cues = parseWebVTT(vtt('00:00.000 --> 00:02.000\nA', '00:01.000 --> 00:03.000\nB'));
+
+  it('joins overlapping cues in start order', () => {
+    expect(activeCueText(cues, 1.5)).toBe('A\nB');
+  });
+
+  it('treats the end time as exclusive', () => {
+    expect(activeCueText(cues, 2)).toBe('B');
+    expect(activeCueText(cues, 3)).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+// webvtt.ts — Minimal WebVTT parser for captions drawn outside a <video>
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VttCue {
+  /** Seconds */
+  start: number;
+  /** Seconds */
+  end: number;
+  /** Plain text, cue tags stripped; lines separated by \n */
+  text: string;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const TIMING = /^((?:\d+:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}\.\d{3})/;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': '\u00A0',
+  '&lrm;': '\u200E',
+  '&rlm;': '\u200F',
+};
+
+const parseTimestamp = (value: string): number => {
+  const parts = value.split(':').map(Number);
+  const seconds = parts.pop() ?? 0;
+  const minutes = parts.pop() ?? 0;
+  const hours = parts.pop() ?? 0;
+  return hours * 3600 + minutes * 60 + seconds;
+};
+
+// Voice spans, classes, italics etc. are not styled in the overlay
+const toPlainText = (lines: string[]): string =>
+  lines
+    .join('\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, (entity) => ENTITIES[entity])
+    .trim();
+
+/** Parse a WebVTT document into cues sorted by start time. Malformed blocks are skipped. */
+export function parseWebVTT(source: string): VttCue[] {
+  const blocks = source
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const cues: VttCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line) => line.length > 0);
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) continue; // header, NOTE, STYLE, REGION
+
+    const match = TIMING.exec(lines[timingIndex].trim());
+    if (!match) continue;
+
+    const text = toPlainText(lines.slice(timingIndex + 1));
+    if (!text) continue;
+
+    cues.push({ start: parseTimestamp(match[1]), end: parseTimestamp(match[2]), text });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/** Text of every cue active at `time`, joined in start order (null when none). */
+export function activeCueText(cues: VttCue[], time: number): string | null {
+  const active = cues.filter((cue) => cue.start <= time && time < cue.end);
+  return active.length > 0 ? active.map((cue) => cue.text).join('\n') : null;
+}